@@ -0,0 +1,70 @@
+// 压测负载均衡的热路径：并发请求一个接口，统计吞吐量和延迟分位数
+// 用法: BENCH_TOKEN=<会话 token> npm run bench
+// 管理接口不接受 HOME_ACCESS_KEY 作为 Bearer 令牌，先登录取得会话 token：
+//   curl -s -X POST http://127.0.0.1:8787/ -H 'Content-Type: application/json' -d '{"key":"<HOME_ACCESS_KEY>"}'
+// 认证失败会计入登录失败次数，连续失败会锁定本机 IP，因此收到 401 后立即停止压测
+// 可选环境变量: BENCH_URL (默认 http://127.0.0.1:8787), BENCH_PATH (默认 /api/next-key),
+//              BENCH_BODY (设置后以 POST 发送该 JSON), BENCH_REQUESTS (默认 2000), BENCH_CONCURRENCY (默认 50)
+// 例如压测对话接口: BENCH_TOKEN=<AUTH_KEY> BENCH_PATH=/v1/chat/completions BENCH_BODY='{"model":"gemini-2.5-flash","messages":[{"role":"user","content":"hi"}]}' npm run bench
+const baseUrl = process.env.BENCH_URL ?? 'http://127.0.0.1:8787';
+const path = process.env.BENCH_PATH ?? '/api/next-key';
+const token = process.env.BENCH_TOKEN ?? '';
+const body = process.env.BENCH_BODY;
+const total = parseInt(process.env.BENCH_REQUESTS ?? '2000', 10);
+const concurrency = parseInt(process.env.BENCH_CONCURRENCY ?? '50', 10);
+
+const latencies = [];
+// 服务端 Server-Timing 中 key-select 的耗时，即等待选出密钥的时间
+const selectTimings = [];
+let errors = 0;
+let firstError;
+let next = 0;
+
+const worker = async () => {
+	while (next < total) {
+		next++;
+		const start = performance.now();
+		try {
+			const response = await fetch(`${baseUrl}${path}`, {
+				method: body ? 'POST' : 'GET',
+				headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+				body,
+			});
+			const text = await response.text();
+			const timing = response.headers.get('Server-Timing')?.match(/key-select;dur=([\d.]+)/);
+			if (timing) {
+				selectTimings.push(parseFloat(timing[1]));
+			}
+			if (!response.ok) {
+				errors++;
+				firstError ??= `${response.status} ${text.substring(0, 200)}`;
+			}
+			if (response.status === 401) {
+				next = total;
+			}
+		} catch (error) {
+			errors++;
+			firstError ??= String(error);
+		}
+		latencies.push(performance.now() - start);
+	}
+};
+
+const startedAt = performance.now();
+await Promise.all(Array.from({ length: concurrency }, worker));
+const elapsed = (performance.now() - startedAt) / 1000;
+
+const percentile = (values, p) => values[Math.min(values.length - 1, Math.floor((p / 100) * values.length))].toFixed(1);
+latencies.sort((a, b) => a - b);
+selectTimings.sort((a, b) => a - b);
+console.log(`${path}: ${latencies.length} requests, concurrency ${concurrency}, ${errors} errors`);
+console.log(`throughput: ${(latencies.length / elapsed).toFixed(1)} req/s`);
+console.log(
+	`latency (ms): p50 ${percentile(latencies, 50)}, p95 ${percentile(latencies, 95)}, p99 ${percentile(latencies, 99)}, max ${latencies[latencies.length - 1].toFixed(1)}`
+);
+if (firstError) {
+	console.log(`first error: ${firstError}`);
+}
+if (selectTimings.length > 0) {
+	console.log(`key-select (ms): p50 ${percentile(selectTimings, 50)}, p95 ${percentile(selectTimings, 95)}, p99 ${percentile(selectTimings, 99)}`);
+}
@@ -1,22 +1,77 @@
-export function getAuthKey(request: Request, sessionKey?: string): string | undefined {
-    if (sessionKey) return sessionKey;
-    // 先查 cookie
-    const cookie = request.headers.get('Cookie');
-    if (cookie) {
-        const match = cookie.match(/auth-key=([^;]+)/);
-        if (match) return match[1];
+// 管理会话：登录成功后签发 `<会话 id>.<过期时间>.<签名>` 形式的令牌，签名密钥为 HOME_ACCESS_KEY，
+// 修改 HOME_ACCESS_KEY 后所有会话立即失效。会话是否已注销由 Durable Object 中的 admin_sessions 表决定
+export const SESSION_COOKIE = 'admin-session';
+export const CSRF_HEADER = 'X-CSRF-Token';
+export const DEFAULT_ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// admin 可以执行所有管理操作，readonly（使用 HOME_READONLY_KEY 登录）只能查看
+export type AdminRole = 'admin' | 'readonly';
+export type AdminSession = { id: string; expires_at: number; role: AdminRole; source: 'cookie' | 'bearer' };
+
+// 常量时间比较两个字符串，避免通过响应耗时逐字节猜出密钥或签名
+export function timingSafeEqual(a: string, b: string): boolean {
+    const left = new TextEncoder().encode(a);
+    const right = new TextEncoder().encode(b);
+    if (left.byteLength !== right.byteLength) {
+        crypto.subtle.timingSafeEqual(left, left);
+        return false;
     }
-    // 再查 Authorization header
+    return crypto.subtle.timingSafeEqual(left, right);
+}
+
+async function hmacHex(secret: string, data: string): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+    return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function signSessionToken(secret: string, id: string, expiresAt: number): Promise<string> {
+    return `${id}.${expiresAt}.${await hmacHex(secret, `session:${id}.${expiresAt}`)}`;
+}
+
+// CSRF 令牌由会话 id 派生，无需单独保存
+export function deriveCsrfToken(secret: string, sessionId: string): Promise<string> {
+    return hmacHex(secret, `csrf:${sessionId}`);
+}
+
+// 校验令牌的签名和过期时间，返回会话 id
+export async function verifySessionToken(secret: string, token: string): Promise<{ id: string; expires_at: number } | null> {
+    const [id, expiresAt, signature] = token.split('.');
+    const expires_at = parseInt(expiresAt, 10);
+    if (!id || !signature || Number.isNaN(expires_at) || expires_at <= Math.floor(Date.now() / 1000)) {
+        return null;
+    }
+    return timingSafeEqual(signature, await hmacHex(secret, `session:${id}.${expires_at}`)) ? { id, expires_at } : null;
+}
+
+// 先查 cookie，再查 Authorization header（脚本调用管理 API 时使用登录返回的令牌）
+export function getSessionToken(request: Request): { token: string; source: AdminSession['source'] } | undefined {
+    const cookie = request.headers.get('Cookie');
+    const match = cookie?.match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`));
+    if (match) return { token: match[1], source: 'cookie' };
     const authHeader = request.headers.get('Authorization');
     if (authHeader) {
-        return authHeader.replace(/^Bearer\s+/, '');
+        return { token: authHeader.replace(/^Bearer\s+/, ''), source: 'bearer' };
     }
     return undefined;
 }
 
-// 管理 API 校验 HOME_ACCESS_KEY
-export function isAdminAuthenticated(request: Request, homeAccessKey: string): boolean {
-    if (!homeAccessKey) return false;
-    const key = getAuthKey(request);
-    return key === homeAccessKey;
+// 管理 API 校验会话令牌：签名有效、未过期，且 getRole 确认会话没有被注销并返回会话的角色
+export async function isAdminAuthenticated(
+    request: Request,
+    homeAccessKey: string,
+    getRole: (id: string) => AdminRole | null
+): Promise<AdminSession | null> {
+    if (!homeAccessKey) return null;
+    const presented = getSessionToken(request);
+    if (!presented) return null;
+    const session = await verifySessionToken(homeAccessKey, presented.token);
+    const role = session && getRole(session.id);
+    return session && role ? { ...session, role, source: presented.source } : null;
+}
+
+// 通过 cookie 认证的修改类请求必须带上 CSRF 令牌；使用 Authorization header 的请求不会被浏览器自动携带，无需校验
+export async function isCsrfValid(request: Request, homeAccessKey: string, session: AdminSession): Promise<boolean> {
+    if (session.source !== 'cookie' || ['GET', 'HEAD', 'OPTIONS'].includes(request.method)) return true;
+    return timingSafeEqual(request.headers.get(CSRF_HEADER) ?? '', await deriveCsrfToken(homeAccessKey, session.id));
 }
@@ -1,5 +1,16 @@
 import { DurableObject } from 'cloudflare:workers';
-import { isAdminAuthenticated } from './auth';
+import {
+	AdminRole,
+	AdminSession,
+	DEFAULT_ADMIN_SESSION_TTL_SECONDS,
+	deriveCsrfToken,
+	getSessionToken,
+	isAdminAuthenticated,
+	isCsrfValid,
+	signSessionToken,
+	timingSafeEqual,
+	verifySessionToken,
+} from './auth';
 
 class HttpError extends Error {
 	status: number;
@@ -10,11 +21,39 @@ class HttpError extends Error {
 	}
 }
 
+// 向上游发送请求时的网络错误，只有这类异常会换密钥重试
+class UpstreamFetchError extends Error {
+	constructor(cause: unknown) {
+		super(cause instanceof Error ? cause.message : String(cause));
+		this.name = this.constructor.name;
+	}
+}
+
+const fetchUpstream = async (input: RequestInfo | URL, init?: RequestInit) => {
+	try {
+		return await fetch(input, init);
+	} catch (error) {
+		throw new UpstreamFetchError(error);
+	}
+};
+
+// 所有密钥都已用完某个模型的分钟/每日配额，retryAfter 为最早可恢复的秒数
+class QuotaExhaustedError extends HttpError {
+	retryAfter: number;
+	constructor(model: string, retryAfter: number) {
+		super(`All API keys have exhausted their quota for model ${model}, retry after ${retryAfter}s`, 429);
+		this.retryAfter = retryAfter;
+	}
+}
+
 const fixCors = ({ headers, status, statusText }: { headers?: HeadersInit; status?: number; statusText?: string }) => {
 	const newHeaders = new Headers(headers);
 	newHeaders.set('Access-Control-Allow-Origin', '*');
 	newHeaders.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-	newHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-goog-api-key');
+	newHeaders.set(
+		'Access-Control-Allow-Headers',
+		`Content-Type, Authorization, x-goog-api-key, x-api-key, anthropic-version, ${CLIENT_ID_HEADER}, ${AFFINITY_SESSION_HEADER}`
+	);
 	return { headers: newHeaders, status, statusText };
 };
 
@@ -28,9 +67,499 @@ const makeHeaders = (apiKey: string, more?: Record<string, string>) => ({
 	...more,
 });
 
+// 失败重试的默认配置，可通过 RETRY_* 环境变量覆盖
+const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BACKOFF_MS = 200;
+const DEFAULT_RETRY_STATUS_CODES = [429, 500, 502, 503, 504];
+
+const parseIntOr = (value: unknown, fallback: number) => {
+	const parsed = parseInt(String(value ?? ''), 10);
+	return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+// 熔断配置：这些状态码说明密钥本身出了问题（配额耗尽、无权限），需要暂停使用一段时间
+const COOLDOWN_STATUS_CODES = [401, 403, 429];
+const DEFAULT_KEY_COOLDOWN_SECONDS = 60;
+const DEFAULT_KEY_COOLDOWN_MAX_SECONDS = 3600;
+// 冷却结束后放行一个探测请求，探测期间其它请求不会选中该密钥
+const HALF_OPEN_PROBE_SECONDS = 60;
+
+// 密钥检查失败的分类：invalid_key 和 permission_denied 会禁用密钥，quota_exhausted 会让密钥进入冷却，
+// region_blocked、network_error 与 upstream_error 与密钥本身无关，只记录不处理
+type KeyCheckCategory = 'ok' | 'invalid_key' | 'permission_denied' | 'quota_exhausted' | 'region_blocked' | 'network_error' | 'upstream_error';
+
+const DISABLING_CHECK_CATEGORIES: KeyCheckCategory[] = ['invalid_key', 'permission_denied'];
+
+const classifyKeyCheckFailure = (status: number, body: string): KeyCheckCategory => {
+	if (/location is not supported/i.test(body)) {
+		return 'region_blocked';
+	}
+	if (status === 429 || /RESOURCE_EXHAUSTED/.test(body)) {
+		return 'quota_exhausted';
+	}
+	if (status === 401 || /API_KEY_INVALID|API key not valid|API key expired/i.test(body)) {
+		return 'invalid_key';
+	}
+	if (status === 403 || /PERMISSION_DENIED/.test(body)) {
+		return 'permission_denied';
+	}
+	if (status >= 500) {
+		return 'upstream_error';
+	}
+	return status === 400 ? 'invalid_key' : 'upstream_error';
+};
+
+type KeyCheckResult = {
+	fingerprint: string;
+	valid: boolean;
+	category: KeyCheckCategory;
+	status_code: number | null;
+	error: string | null;
+};
+
+// 定时健康检查配置，保存在 Durable Object 存储中，通过 PUT /api/health-check 修改
+type HealthCheckConfig = {
+	enabled: boolean;
+	interval_minutes: number;
+	concurrency: number;
+};
+
+const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = { enabled: false, interval_minutes: 30, concurrency: 5 };
+// 健康检查历史保留 7 天
+const HEALTH_CHECK_HISTORY_SECONDS = 7 * 24 * 60 * 60;
+
+// Gemini API 密钥格式：AIza 开头，共 39 位
+const API_KEY_PATTERN = /^AIza[0-9A-Za-z_-]{35}$/;
+
+// 导入时每个密钥的处理结果：added 已添加，would_add 为 dry_run 模式下将被添加
+type KeyImportResult = {
+	fingerprint: string;
+	masked_key: string;
+	status: 'added' | 'would_add' | 'duplicate' | 'invalid';
+	reason: string | null;
+};
+
+// 以有限的并发数依次处理 items，结果顺序与输入一致
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	return results;
+};
+
+// 密钥选择策略，通过 PUT /api/keys/strategy 切换
+const KEY_SELECTION_STRATEGIES = ['round_robin', 'random', 'least_recently_used', 'least_calls_last_minute', 'weighted'] as const;
+type KeySelectionStrategy = (typeof KEY_SELECTION_STRATEGIES)[number];
+
+// 路由规则按请求类型匹配：对话、嵌入、模型列表，以及其它原生接口（如 cachedContents、files）
+const KEY_ROUTES = ['chat', 'embeddings', 'images', 'models', 'other'] as const;
+type KeyRoute = (typeof KEY_ROUTES)[number];
+
+const DEFAULT_KEY_POOL = 'default';
+
+type KeySelectionOptions = {
+	// 请求类型，与模型一起决定使用哪个密钥池
+	route?: KeyRoute;
+	// 目标模型，用于按模型配额过滤密钥
+	model?: string;
+	// 本次请求中已经尝试过的密钥指纹
+	exclude?: string[];
+	// 亲和标识，同一标识的请求在有效期内固定使用同一个密钥
+	affinity?: string;
+};
+
+// api_key 为加密后的密钥，只在选中后解密
+type ApiKeyRow = {
+	api_key: string;
+	fingerprint: string;
+	pool: string;
+	status: string;
+	cooldown_until: number;
+	consecutive_failures: number;
+	weight: number;
+	last_used_at: number;
+};
+
+// Gemini 的每日配额在太平洋时间午夜重置，返回当前配额日的起始时间戳（秒）
+const getQuotaDayStart = (now: number) => {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: 'America/Los_Angeles',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+		hour12: false,
+	}).formatToParts(new Date(now * 1000));
+	const get = (type: string) => parseInt(parts.find((part) => part.type === type)?.value ?? '0', 10);
+	return now - (get('hour') % 24) * 3600 - get('minute') * 60 - get('second');
+};
+
+// 判断原生接口路径属于哪类请求，用于匹配路由规则
+const classifyNativeRoute = (pathname: string): KeyRoute => {
+	if (/:(generateContent|streamGenerateContent|countTokens)$/.test(pathname)) {
+		return 'chat';
+	}
+	if (/:(embedContent|batchEmbedContents)$/.test(pathname)) {
+		return 'embeddings';
+	}
+	if (/:predict$/.test(pathname)) {
+		return 'images';
+	}
+	if (/\/models(\/[^/:]+)?$/.test(pathname)) {
+		return 'models';
+	}
+	return 'other';
+};
+
+// Gemini 原生接口在 /v1/ 下的资源，其余 /v1/ 开头的路径按 OpenAI 兼容接口处理，未实现的返回 OpenAI 格式的 404
+const GEMINI_V1_RESOURCE_PATTERN = /^\/v1\/(models|tunedModels|cachedContents|files|operations|batches|corpora)(\/|$)/;
+const isOpenAiPath = (pathname: string) => pathname.startsWith('/v1/') && !GEMINI_V1_RESOURCE_PATTERN.test(pathname);
+
+// 路由规则中的模型匹配，支持 * 通配符，例如 gemini-2.5-pro*
+const matchModelPattern = (pattern: string, model: string) => {
+	const regex = new RegExp('^' + pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+	return regex.test(model);
+};
+
+// 请求中的模型名无法识别时使用的默认模型，可以通过模型策略修改
+const DEFAULT_CHAT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_EMBEDDINGS_MODEL = 'text-embedding-004';
+
+// 图片接口中无法识别的模型（如 dall-e-3、gpt-image-1）使用的模型，Imagen 不支持编辑图片，编辑同样使用该模型
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// 语音合成接口中无法识别的模型（如 tts-1）使用的 Gemini TTS 模型
+const DEFAULT_SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+// OpenAI 语音合成接口的 response_format，除 pcm 外都以 wav 返回
+const SPEECH_RESPONSE_FORMATS = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'];
+
+// OpenAI 的音色对应的 Gemini 预置音色，其它音色名（如 Kore、Puck）直接传给 Gemini
+const OPENAI_VOICES: Record<string, string> = {
+	alloy: 'Kore',
+	ash: 'Charon',
+	ballad: 'Algieba',
+	coral: 'Aoede',
+	echo: 'Puck',
+	fable: 'Fenrir',
+	nova: 'Leda',
+	onyx: 'Orus',
+	sage: 'Sulafat',
+	shimmer: 'Callirrhoe',
+	verse: 'Enceladus',
+};
+
+// 上传的音频按扩展名（或 MIME 子类型）确定 input_audio 的 format
+const AUDIO_FORMATS: Record<string, string> = {
+	aac: 'aac',
+	aif: 'aiff',
+	aiff: 'aiff',
+	flac: 'flac',
+	m4a: 'mp4',
+	mp3: 'mp3',
+	mp4: 'mp4',
+	mpeg: 'mp3',
+	mpga: 'mp3',
+	oga: 'ogg',
+	ogg: 'ogg',
+	opus: 'ogg',
+	wav: 'wav',
+	wave: 'wav',
+	webm: 'webm',
+	'x-wav': 'wav',
+};
+
+const TRANSCRIPTION_FORMATS = ['json', 'text', 'srt', 'verbose_json', 'vtt'];
+
+// 字幕时间格式：SRT 的毫秒分隔符为逗号，WebVTT 为句点
+const formatSubtitleTime = (seconds: number, separator: ',' | '.') => {
+	const ms = Math.max(0, Math.round(seconds * 1000));
+	const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+	return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Gemini TTS 返回 16 位单声道 PCM，加上 WAV 文件头
+const pcmToWav = (pcm: Uint8Array, sampleRate: number) => {
+	const wav = new Uint8Array(44 + pcm.length);
+	const view = new DataView(wav.buffer);
+	const writeString = (offset: number, value: string) => {
+		for (let i = 0; i < value.length; i++) {
+			view.setUint8(offset + i, value.charCodeAt(i));
+		}
+	};
+	writeString(0, 'RIFF');
+	view.setUint32(4, 36 + pcm.length, true);
+	writeString(8, 'WAVE');
+	writeString(12, 'fmt ');
+	view.setUint32(16, 16, true);
+	view.setUint16(20, 1, true);
+	view.setUint16(22, 1, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * 2, true);
+	view.setUint16(32, 2, true);
+	view.setUint16(34, 16, true);
+	writeString(36, 'data');
+	view.setUint32(40, pcm.length, true);
+	wav.set(pcm, 44);
+	return wav;
+};
+
+// OpenAI 的 size（如 1024x1792）换算为 Imagen 和 Gemini 图片模型都支持的最接近的宽高比
+const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const toAspectRatio = (size: unknown) => {
+	if (size === undefined || size === null || size === 'auto') {
+		return undefined;
+	}
+	const match = typeof size === 'string' ? size.match(/^(\d+)x(\d+)$/) : null;
+	if (!match) {
+		throw new HttpError(`Invalid size "${size}", expected WIDTHxHEIGHT such as 1024x1024`, 400);
+	}
+	const distance = (ratio: string) => {
+		const [width, height] = ratio.split(':').map(Number);
+		return Math.abs(Math.log(width / height) - Math.log(Number(match[1]) / Number(match[2])));
+	};
+	return IMAGE_ASPECT_RATIOS.reduce((best, ratio) => (distance(ratio) < distance(best) ? ratio : best));
+};
+
+// 模型策略：subject 为 * 或客户端密钥 id（root 为 AUTH_KEY），客户端密钥的策略中为 null 的字段沿用 * 的配置。
+// allowed_models 为模型名列表（支持 * 通配符），为 null 时不限制
+type ModelPolicy = { allowed_models: string[] | null; default_chat_model: string | null; default_embedding_model: string | null };
+
+type EffectiveModelPolicy = { allowed_models: string[] | null; default_chat_model: string; default_embedding_model: string };
+
+const normalizeModelName = (model: string) => model.replace(/^models\//, '').replace(/:search$/, '');
+
+// 从原生接口路径中提取模型名，例如 /v1beta/models/gemini-2.5-pro:generateContent
+const extractModelFromPath = (pathname: string) => pathname.match(/\/models\/([^/:]+):/)?.[1];
+
+// 模型策略和调用方限额错误使用调用方所用接口的错误格式
+type ErrorFormat = 'openai' | 'anthropic' | 'gemini';
+
+// 密钥亲和：缓存内容只能由创建它的密钥访问，会话请求也尽量落在同一个密钥上
+const DEFAULT_KEY_AFFINITY_TTL_SECONDS = 3600;
+const AFFINITY_SESSION_HEADER = 'X-Gemini-Balance-Session';
+
+// 从路径中提取缓存内容名称，例如 /v1beta/cachedContents/abc123
+const extractCachedContentFromPath = (pathname: string) => pathname.match(/\/(cachedContents\/[^/:]+)/)?.[1];
+
+// 请求的亲和标识：优先使用缓存内容名称，其次使用客户端提供的会话头
+const resolveKeyAffinity = (request: Request, cachedContent?: unknown) => {
+	if (typeof cachedContent === 'string' && cachedContent.trim()) {
+		return `cache:${cachedContent.trim()}`;
+	}
+	const session = request.headers.get(AFFINITY_SESSION_HEADER)?.trim();
+	return session ? `session:${session.substring(0, 200)}` : undefined;
+};
+
+// 用量在内存中累积后批量写入：按时间间隔，或积压条数达到上限时立即写入
+const USAGE_FLUSH_INTERVAL_MS = 1000;
+const USAGE_FLUSH_MAX_PENDING = 500;
+
+// 尚未写入数据库的一次密钥使用，used_at 为毫秒
+type UsageRecord = { fingerprint: string; model: string | null; timestamp: number; used_at: number };
+
+// 内存中的调用计数：当前配额日内每个密钥的调用次数，以及最近一分钟的调用时间（秒）
+type UsageCounter = { day_start: number; day: Map<string, number>; minute: Map<string, number[]> };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sha256Hex = async (value: string) => {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 密钥指纹：SHA-256 的前 12 位十六进制，用于在响应头和日志中标识密钥而不暴露原文
+const keyFingerprint = async (apiKey: string) => (await sha256Hex(apiKey)).substring(0, 12);
+
+// 密钥脱敏：只保留前 4 位和后 4 位，用于管理 API 和控制台展示
+const maskApiKey = (apiKey: string) => (apiKey.length > 12 ? `${apiKey.slice(0, 4)}...${apiKey.slice(-4)}` : '****');
+
+// 加密后的密钥格式：enc:v1:<iv base64>:<密文 base64>，没有该前缀的视为迁移前的明文密钥
+const ENCRYPTED_KEY_PREFIX = 'enc:v1:';
+
+const toBase64 = (bytes: Uint8Array) => {
+	// 分段转换，避免上传的图片等较大的数据展开为参数时超出调用栈
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+// 轮询选出的密钥：key 为明文，只用于发送上游请求；fingerprint 用于记录状态和日志
+type SelectedKey = { key: string; fingerprint: string };
+
+// 客户端密钥：由管理 API 签发给调用方，数据库中只保存 SHA-256 哈希，明文只在创建和轮换时返回一次
+const CLIENT_KEY_PREFIX = 'gbk-';
+// 环境变量 AUTH_KEY 作为 root 客户端继续有效，不能被吊销
+const ROOT_CLIENT_ID = 'root';
+// last_used_at 最多每分钟写入一次
+const CLIENT_KEY_LAST_USED_RESOLUTION_SECONDS = 60;
+
+type ClientKeyRow = {
+	id: string;
+	name: string;
+	key_hash: string;
+	enabled: boolean;
+	expires_at: number | null;
+	last_used_at: number;
+};
+
+// 通过认证的调用方：id 为客户端密钥 id，sub_client 为可选的 X-Client-Id 请求头，用于在同一个密钥下区分调用方
+type ClientIdentity = { id: string; name: string; sub_client: string | null };
+
+const CLIENT_ID_HEADER = 'X-Client-Id';
+
+// 调用方限额，0 表示不限制。按 subject 配置：客户端密钥 id（root 为 AUTH_KEY）、`<id>:<X-Client-Id>`，
+// 或 * 作为未单独配置的客户端密钥的默认限额
+type ClientLimit = { rpm: number; rpd: number; daily_tokens: number; monthly_tokens: number };
+
+// 一个计数范围（客户端密钥，或客户端密钥 + X-Client-Id）的用量，按 UTC 自然日、自然月统计
+type ClientUsageCounter = {
+	day_start: number;
+	month_start: number;
+	minute: number[];
+	day_requests: number;
+	day_tokens: number;
+	month_tokens: number;
+};
+
+type ClientUsageRecord = { client: string; sub_client: string | null; timestamp: number; requests: number; tokens: number };
+// 写入用量时顺带清理上个月及更早的调用方用量，最多每小时一次
+const CLIENT_USAGE_PRUNE_INTERVAL_SECONDS = 3600;
+
+// 认证失败锁定：同一 IP 在窗口期内连续失败达到次数后锁定，锁定时长随锁定次数指数增长，可通过 AUTH_* 环境变量覆盖。
+// admin 为管理面板登录和管理 API，proxy 为代理接口，两者分别计数
+type AuthScope = 'admin' | 'proxy';
+type AuthLockout = { failures: number; lockouts: number; locked_until: number; last_failure_at: number };
+const DEFAULT_AUTH_MAX_FAILURES = 5;
+const DEFAULT_AUTH_LOCKOUT_SECONDS = 60;
+const DEFAULT_AUTH_LOCKOUT_MAX_SECONDS = 3600;
+// 超过窗口期没有新的失败时清零失败次数，超过一天没有失败时锁定次数也清零
+const AUTH_FAILURE_WINDOW_SECONDS = 15 * 60;
+const AUTH_LOCKOUT_RESET_SECONDS = 24 * 60 * 60;
+const AUTH_FAILURE_LOG_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+// 限额检查中的一项，remaining 为本次请求之前的剩余量
+type ClientLimitStatus = { type: 'requests' | 'tokens'; name: keyof ClientLimit; limit: number; remaining: number; reset: number };
+
+const getUtcDayStart = (now: number) => now - (now % 86400);
+
+const getUtcMonthStart = (now: number, offset = 0) => {
+	const date = new Date(now * 1000);
+	return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1) / 1000;
+};
+
+// 只读管理会话不能访问的 GET 接口（有副作用）：检查会禁用密钥，取下一个密钥会推进轮询位置并记录用量
+const READONLY_DENIED_PATHS = ['/api/keys/check', '/api/next-key'];
+
+const getClientIp = (request: Request) => request.headers.get('CF-Connecting-IP') ?? 'unknown';
+
+const generateClientKey = () => {
+	const bytes = crypto.getRandomValues(new Uint8Array(24));
+	return CLIENT_KEY_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// candidatesTokenCount 不包含思考内容，OpenAI 的 completion_tokens 包含 reasoning_tokens，需要加上 thoughtsTokenCount
+const toOpenAiUsage = (usageMetadata: any) => ({
+	completion_tokens: (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0),
+	prompt_tokens: usageMetadata.promptTokenCount,
+	total_tokens: usageMetadata.totalTokenCount,
+	completion_tokens_details: { reasoning_tokens: usageMetadata.thoughtsTokenCount ?? 0 },
+});
+
+// Responses API 的状态：因长度或安全过滤截断的输出为 incomplete
+const responseStatusFromFinishReason = (finishReason?: string) => {
+	switch (finishReason) {
+		case 'length':
+			return { status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' } };
+		case 'content_filter':
+			return { status: 'incomplete', incomplete_details: { reason: 'content_filter' } };
+		default:
+			return { status: 'completed', incomplete_details: null };
+	}
+};
+
+const toResponsesUsage = (usage: any) =>
+	usage && {
+		input_tokens: usage.prompt_tokens ?? 0,
+		input_tokens_details: { cached_tokens: 0 },
+		output_tokens: usage.completion_tokens ?? 0,
+		output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+		total_tokens: usage.total_tokens ?? 0,
+	};
+
+// Anthropic Messages API 的错误类型，按 HTTP 状态码对应
+const ANTHROPIC_ERROR_TYPES: Record<number, string> = {
+	400: 'invalid_request_error',
+	401: 'authentication_error',
+	403: 'permission_error',
+	404: 'not_found_error',
+	413: 'request_too_large',
+	429: 'rate_limit_error',
+	529: 'overloaded_error',
+};
+
+const anthropicErrorResponse = (status: number, message: string, headers?: Record<string, string>) =>
+	new Response(JSON.stringify({ type: 'error', error: { type: ANTHROPIC_ERROR_TYPES[status] ?? 'api_error', message } }), {
+		status,
+		headers: fixCors({ headers: { 'Content-Type': 'application/json', ...headers } }).headers,
+	});
+
+// Gemini 调用工具或遇到停止序列时同样返回 STOP，需要根据输出中是否有工具调用、是否以停止序列结尾判断
+const toAnthropicStopReason = (finishReason: string | undefined, hasToolUse: boolean, stopSequence: string | null = null) => {
+	if (hasToolUse) {
+		return 'tool_use';
+	}
+	switch (finishReason) {
+		case 'stop':
+			return stopSequence ? 'stop_sequence' : 'end_turn';
+		case 'length':
+			return 'max_tokens';
+		case 'content_filter':
+			return 'refusal';
+		default:
+			return 'end_turn';
+	}
+};
+
+// 输出以请求的某个停止序列结尾时返回该序列
+const findStopSequence = (text: string, stopSequences: string[]) => stopSequences.find((sequence) => text.endsWith(sequence)) ?? null;
+
+const toAnthropicUsage = (usage: any) => ({ input_tokens: usage?.prompt_tokens ?? 0, output_tokens: usage?.completion_tokens ?? 0 });
+
 /** A Durable Object's behavior is defined in an exported Javascript class */
 export class LoadBalancer extends DurableObject {
 	env: Env;
+	// 热路径使用的内存状态：密钥、路由规则和模型配额的缓存在管理操作修改后失效
+	private keyCache: ApiKeyRow[] | null = null;
+	private plaintextCache = new Map<string, string>();
+	private routingRulesCache: { endpoint: string; model_pattern: string; pool: string }[] | null = null;
+	private modelQuotaCache: Map<string, { rpm: number; rpd: number }> | null = null;
+	private strategy: KeySelectionStrategy = 'round_robin';
+	private roundRobinIndex = 0;
+	private roundRobinIndexDirty = false;
+	private pendingUsage: UsageRecord[] = [];
+	private usageCounters = new Map<string, UsageCounter>();
+	private usageFlushTimer: ReturnType<typeof setTimeout> | null = null;
+	// 以哈希为键的客户端密钥缓存，签发、吊销、轮换后失效
+	private clientKeyCache: Map<string, ClientKeyRow> | null = null;
+	private clientLimitCache: Map<string, ClientLimit> | null = null;
+	private modelPolicyCache: Map<string, ModelPolicy> | null = null;
+	private pendingClientUsage: ClientUsageRecord[] = [];
+	private clientUsagePrunedAt = 0;
+	// 以 `<scope>:<ip>` 为键的认证失败状态，每个请求都要检查是否被锁定
+	private authLockoutCache: Map<string, AuthLockout> | null = null;
+	// 通过校验的管理请求对应的会话，写审计日志时记录操作者
+	private adminSessions = new WeakMap<Request, AdminSession>();
+	private clientUsageCounters = new Map<string, ClientUsageCounter>();
 	/**
 	 * The constructor is invoked once upon creation of the Durable Object, i.e. the first call to
 	 * 	`DurableObjectStub::get` for a given identifier (no-op constructors can be omitted)
@@ -49,8 +578,391 @@ export class LoadBalancer extends DurableObject {
 			'CREATE TABLE IF NOT EXISTS api_key_usage_logs (id INTEGER PRIMARY KEY AUTOINCREMENT, api_key TEXT, timestamp INTEGER)'
 		);
 		// Migration to add total_calls column if it doesn't exist
+		this.addColumnIfMissing('api_keys', 'total_calls INTEGER DEFAULT 0');
+		// 熔断状态：status 为 active / cooldown / half_open
+		this.addColumnIfMissing('api_keys', "status TEXT DEFAULT 'active'");
+		this.addColumnIfMissing('api_keys', 'cooldown_until INTEGER DEFAULT 0');
+		this.addColumnIfMissing('api_keys', 'consecutive_failures INTEGER DEFAULT 0');
+		this.addColumnIfMissing('api_keys', 'last_error TEXT');
+		this.addColumnIfMissing('api_keys', 'last_error_at INTEGER');
+		// 加权策略使用的权重，以及最久未使用策略使用的最后调用时间（毫秒）
+		this.addColumnIfMissing('api_keys', 'weight INTEGER DEFAULT 1');
+		this.addColumnIfMissing('api_keys', 'last_used_at INTEGER DEFAULT 0');
+		// 按模型统计用量，用于配额判断
+		this.addColumnIfMissing('api_key_usage_logs', 'model TEXT');
+		this.ctx.storage.sql.exec(
+			'CREATE INDEX IF NOT EXISTS idx_usage_logs_model_timestamp ON api_key_usage_logs (model, timestamp)'
+		);
+		// 每个模型的单密钥配额，rpm/rpd 为空或 0 表示不限制；model 为 * 的行作为默认配额
+		this.ctx.storage.sql.exec('CREATE TABLE IF NOT EXISTS model_quotas (model TEXT PRIMARY KEY, rpm INTEGER, rpd INTEGER)');
+		// 密钥池与路由规则：规则按 priority 从高到低匹配，命中后只使用对应池中的密钥
+		this.addColumnIfMissing('api_keys', `pool TEXT DEFAULT '${DEFAULT_KEY_POOL}'`);
+		// 检查失败的密钥被禁用（status 为 disabled）而不是删除，记录原因和时间
+		this.addColumnIfMissing('api_keys', 'disabled_reason TEXT');
+		this.addColumnIfMissing('api_keys', 'disabled_at INTEGER');
+		// 每次检查（手动或定时）的结果历史
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS api_key_health_checks (id INTEGER PRIMARY KEY AUTOINCREMENT, api_key TEXT, checked_at INTEGER, category TEXT, status_code INTEGER, error TEXT, source TEXT)'
+		);
+		this.ctx.storage.sql.exec(
+			'CREATE INDEX IF NOT EXISTS idx_health_checks_key_checked_at ON api_key_health_checks (api_key, checked_at)'
+		);
+		this.ctx.storage.sql.exec(
+			"CREATE TABLE IF NOT EXISTS routing_rules (id INTEGER PRIMARY KEY AUTOINCREMENT, endpoint TEXT DEFAULT '*', model_pattern TEXT DEFAULT '*', pool TEXT, priority INTEGER DEFAULT 0)"
+		);
+		// 密钥加密存储：api_key 列保存密文，fingerprint 作为密钥在管理 API、日志和其它表中的标识
+		this.addColumnIfMissing('api_keys', 'fingerprint TEXT');
+		this.addColumnIfMissing('api_keys', 'masked_key TEXT');
+		this.ctx.storage.sql.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_fingerprint ON api_keys (fingerprint)');
+		this.addColumnIfMissing('api_key_usage_logs', 'fingerprint TEXT');
+		this.ctx.storage.sql.exec(
+			'CREATE INDEX IF NOT EXISTS idx_usage_logs_fingerprint_timestamp ON api_key_usage_logs (fingerprint, timestamp)'
+		);
+		this.addColumnIfMissing('api_key_health_checks', 'fingerprint TEXT');
+		this.ctx.storage.sql.exec(
+			'CREATE INDEX IF NOT EXISTS idx_health_checks_fingerprint_checked_at ON api_key_health_checks (fingerprint, checked_at)'
+		);
+		// 修改密钥和配置的管理操作记录在只追加的审计表中，actor 为来源 IP，session_id 为管理会话
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS audit_logs (id INTEGER PRIMARY KEY AUTOINCREMENT, action TEXT, fingerprints TEXT, actor TEXT, detail TEXT, created_at INTEGER)'
+		);
+		this.addColumnIfMissing('audit_logs', 'session_id TEXT');
+		this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs (action)');
+		// 亲和标识到密钥指纹的映射，过期后重新按策略选择
+		this.ctx.storage.sql.exec('CREATE TABLE IF NOT EXISTS key_affinities (affinity TEXT PRIMARY KEY, fingerprint TEXT, expires_at INTEGER)');
+		this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS idx_key_affinities_expires_at ON key_affinities (expires_at)');
+		// 签发给调用方的客户端密钥，expires_at 为空表示永不过期
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS client_keys (id TEXT PRIMARY KEY, name TEXT, key_hash TEXT, masked_key TEXT, enabled INTEGER DEFAULT 1, created_at INTEGER, expires_at INTEGER, last_used_at INTEGER DEFAULT 0, rotated_at INTEGER)'
+		);
+		this.ctx.storage.sql.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_client_keys_key_hash ON client_keys (key_hash)');
+		// 调用方限额与用量：每次请求写入一行 requests = 1，得到 usageMetadata 后再写入一行 tokens
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS client_limits (subject TEXT PRIMARY KEY, rpm INTEGER, rpd INTEGER, daily_tokens INTEGER, monthly_tokens INTEGER)'
+		);
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS client_usage_logs (id INTEGER PRIMARY KEY AUTOINCREMENT, client TEXT, sub_client TEXT, timestamp INTEGER, requests INTEGER DEFAULT 0, tokens INTEGER DEFAULT 0)'
+		);
+		this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS idx_client_usage_logs_client_timestamp ON client_usage_logs (client, timestamp)');
+		// 管理会话，注销后写入 revoked_at，过期的会话在下次登录时清理
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS admin_sessions (id TEXT PRIMARY KEY, actor TEXT, created_at INTEGER, expires_at INTEGER, revoked_at INTEGER)'
+		);
+		this.addColumnIfMissing('admin_sessions', "role TEXT DEFAULT 'admin'");
+		// 认证失败状态和失败记录，失败记录保留 7 天
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS auth_lockouts (scope TEXT, ip TEXT, failures INTEGER, lockouts INTEGER, locked_until INTEGER, last_failure_at INTEGER, PRIMARY KEY (scope, ip))'
+		);
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS auth_failures (id INTEGER PRIMARY KEY AUTOINCREMENT, scope TEXT, ip TEXT, path TEXT, created_at INTEGER)'
+		);
+		this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS idx_auth_failures_created_at ON auth_failures (created_at)');
+		// 模型策略，allowed_models 以 JSON 数组保存
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS model_policies (subject TEXT PRIMARY KEY, allowed_models TEXT, default_chat_model TEXT, default_embedding_model TEXT)'
+		);
+		this.ctx.blockConcurrencyWhile(async () => {
+			await this.migrateKeyStorage();
+			await this.loadSelectionState();
+		});
+	}
+
+	// 把选择策略和轮询下标读入内存，之后选择密钥时不再访问存储
+	private async loadSelectionState() {
+		const strategy = await this.ctx.storage.get<KeySelectionStrategy>('key_selection_strategy');
+		this.strategy = strategy && KEY_SELECTION_STRATEGIES.includes(strategy) ? strategy : 'round_robin';
+		this.roundRobinIndex = (await this.ctx.storage.get<number>('round_robin_index')) ?? 0;
+	}
+
+	/**
+	 * 把迁移前以明文保存的密钥加密，并补上指纹；用量日志和检查历史中的明文密钥同样替换为指纹。
+	 * 未配置 KEY_ENCRYPTION_SECRET 时只补指纹，密钥保持明文，直到配置密钥后下一次启动再加密。
+	 */
+	private async migrateKeyStorage() {
+		try {
+			const rows = Array.from(
+				this.ctx.storage.sql
+					.exec('SELECT api_key, fingerprint FROM api_keys WHERE fingerprint IS NULL OR api_key NOT LIKE ?', `${ENCRYPTED_KEY_PREFIX}%`)
+					.raw()
+			);
+			if (rows.length === 0) {
+				return;
+			}
+			if (!this.env.KEY_ENCRYPTION_SECRET) {
+				console.warn(`未配置 KEY_ENCRYPTION_SECRET，${rows.length} 个API密钥仍以明文保存。`);
+			}
+			for (const [storedKey, storedFingerprint] of rows) {
+				const apiKey = String(storedKey);
+				const fingerprint = storedFingerprint ? String(storedFingerprint) : await keyFingerprint(apiKey);
+				const encrypted = this.env.KEY_ENCRYPTION_SECRET ? await this.encryptApiKey(apiKey) : apiKey;
+				this.ctx.storage.sql.exec(
+					'UPDATE api_keys SET api_key = ?, fingerprint = ?, masked_key = ? WHERE api_key = ?',
+					encrypted,
+					fingerprint,
+					maskApiKey(apiKey),
+					apiKey
+				);
+				this.ctx.storage.sql.exec('UPDATE api_key_usage_logs SET fingerprint = ?, api_key = NULL WHERE api_key = ?', fingerprint, apiKey);
+				this.ctx.storage.sql.exec('UPDATE api_key_health_checks SET fingerprint = ?, api_key = NULL WHERE api_key = ?', fingerprint, apiKey);
+			}
+			console.log(`已迁移 ${rows.length} 个API密钥的存储格式。`);
+		} catch (error) {
+			console.error('API密钥加密迁移失败:', error);
+		}
+	}
+
+	private encryptionKey?: Promise<CryptoKey>;
+
+	// 由 KEY_ENCRYPTION_SECRET 派生 AES-GCM 密钥
+	private getEncryptionKey(): Promise<CryptoKey> {
+		if (!this.env.KEY_ENCRYPTION_SECRET) {
+			throw new Error('未配置 KEY_ENCRYPTION_SECRET，无法加密或解密API密钥。');
+		}
+		this.encryptionKey ??= crypto.subtle
+			.digest('SHA-256', new TextEncoder().encode(this.env.KEY_ENCRYPTION_SECRET))
+			.then((raw) => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']));
+		return this.encryptionKey;
+	}
+
+	private async encryptApiKey(apiKey: string): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getEncryptionKey(), new TextEncoder().encode(apiKey));
+		return `${ENCRYPTED_KEY_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+	}
+
+	private async decryptApiKey(stored: string): Promise<string> {
+		if (!stored.startsWith(ENCRYPTED_KEY_PREFIX)) {
+			return stored;
+		}
+		const [iv, ciphertext] = stored.substring(ENCRYPTED_KEY_PREFIX.length).split(':');
+		const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await this.getEncryptionKey(), fromBase64(ciphertext));
+		return new TextDecoder().decode(plaintext);
+	}
+
+	// 管理 API 以指纹标识密钥，同时兼容直接传入完整密钥
+	private async resolveKeyFingerprints(keys: string[]): Promise<string[]> {
+		return Promise.all(
+			keys.map((key) => {
+				const value = String(key ?? '').trim();
+				return API_KEY_PATTERN.test(value) ? keyFingerprint(value) : value;
+			})
+		);
+	}
+
+	// 记录审计日志，actor 为请求来源 IP；定时健康检查等没有请求的操作记为 system
+	private recordAudit(request: Request | null, action: string, fingerprints: string[], detail?: string) {
+		this.insertAuditLog(request ? getClientIp(request) : 'system', (request && this.adminSessions.get(request)?.id) ?? null, action, fingerprints, detail);
+	}
+
+	private insertAuditLog(actor: string, sessionId: string | null, action: string, fingerprints: string[], detail?: string) {
+		this.ctx.storage.sql.exec(
+			'INSERT INTO audit_logs (action, fingerprints, actor, session_id, detail, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+			action,
+			fingerprints.join(','),
+			actor,
+			sessionId,
+			detail ?? null,
+			Math.floor(Date.now() / 1000)
+		);
+	}
+
+	// 校验管理会话；通过 cookie 认证的修改类请求还需要带上 CSRF 令牌。校验失败时返回错误响应
+	private async checkAdminRequest(request: Request): Promise<Response | null> {
+		const ip = getClientIp(request);
+		const lockedFor = this.getAuthLockoutRemaining('admin', ip);
+		if (lockedFor > 0) {
+			await request.arrayBuffer();
+			return this.authLockedResponse(lockedFor);
+		}
+		const session = await isAdminAuthenticated(request, this.env.HOME_ACCESS_KEY, (id) => this.getAdminSessionRole(id));
+		if (!session) {
+			// 没有携带令牌的请求不计为失败
+			if (getSessionToken(request)) {
+				this.recordAuthFailure('admin', ip, new URL(request.url).pathname);
+			}
+			await request.arrayBuffer();
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+			});
+		}
+		if (!(await isCsrfValid(request, this.env.HOME_ACCESS_KEY, session))) {
+			await request.arrayBuffer();
+			return new Response(JSON.stringify({ error: 'CSRF 校验失败，请刷新页面后重试。' }), {
+				status: 403,
+				headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+			});
+		}
+		// 只读账号只能调用查询接口；GET /api/keys/check 会禁用失效的密钥，同样不允许
+		if (session.role === 'readonly' && (request.method !== 'GET' || READONLY_DENIED_PATHS.includes(new URL(request.url).pathname))) {
+			await request.arrayBuffer();
+			return new Response(JSON.stringify({ error: '只读账号无权执行此操作。' }), {
+				status: 403,
+				headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+			});
+		}
+		this.adminSessions.set(request, session);
+		return null;
+	}
+
+	// 返回有效会话的角色，会话不存在、已注销或已过期时返回 null
+	private getAdminSessionRole(id: string): AdminRole | null {
+		const row = Array.from(
+			this.ctx.storage.sql
+				.exec('SELECT role FROM admin_sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > ?', id, Math.floor(Date.now() / 1000))
+				.raw()
+		)[0];
+		return row ? ((row[0] as AdminRole | null) ?? 'admin') : null;
+	}
+
+	// 以下方法由 Worker 通过 RPC 调用：登录时校验 HOME_ACCESS_KEY / HOME_READONLY_KEY 并创建会话，渲染管理页面和注销时校验会话
+	async adminLogin(
+		key: string,
+		ip: string
+	): Promise<
+		| { status: 'ok'; session: { token: string; csrf_token: string; expires_at: number } }
+		| { status: 'invalid' }
+		| { status: 'locked'; retry_after: number }
+	> {
+		const lockedFor = this.getAuthLockoutRemaining('admin', ip);
+		if (lockedFor > 0) {
+			return { status: 'locked', retry_after: lockedFor };
+		}
+		const presented = String(key ?? '');
+		// 会话令牌以 HOME_ACCESS_KEY 签名，未配置 HOME_ACCESS_KEY 时只读账号也无法登录
+		let role: AdminRole | null = null;
+		if (this.env.HOME_ACCESS_KEY && timingSafeEqual(presented, this.env.HOME_ACCESS_KEY)) {
+			role = 'admin';
+		} else if (this.env.HOME_ACCESS_KEY && this.env.HOME_READONLY_KEY && timingSafeEqual(presented, this.env.HOME_READONLY_KEY)) {
+			role = 'readonly';
+		}
+		if (!role) {
+			const lockedNow = this.recordAuthFailure('admin', ip, '/');
+			return lockedNow > 0 ? { status: 'locked', retry_after: lockedNow } : { status: 'invalid' };
+		}
+		this.clearAuthFailures('admin', ip);
+		return { status: 'ok', session: await this.createAdminSession(ip, role) };
+	}
+
+	private async createAdminSession(actor: string, role: AdminRole): Promise<{ token: string; csrf_token: string; expires_at: number }> {
+		const now = Math.floor(Date.now() / 1000);
+		const id = crypto.randomUUID();
+		this.insertAuditLog(actor, id, 'login', [], role);
+		const expiresAt = now + parseIntOr(this.env.ADMIN_SESSION_TTL_SECONDS, DEFAULT_ADMIN_SESSION_TTL_SECONDS);
+		this.ctx.storage.sql.exec('DELETE FROM admin_sessions WHERE expires_at <= ?', now);
+		this.ctx.storage.sql.exec(
+			'INSERT INTO admin_sessions (id, actor, role, created_at, expires_at) VALUES (?, ?, ?, ?, ?)',
+			id,
+			actor,
+			role,
+			now,
+			expiresAt
+		);
+		return {
+			token: await signSessionToken(this.env.HOME_ACCESS_KEY, id, expiresAt),
+			csrf_token: await deriveCsrfToken(this.env.HOME_ACCESS_KEY, id),
+			expires_at: expiresAt,
+		};
+	}
+
+	async getAdminSession(token: string): Promise<{ id: string; role: AdminRole; csrf_token: string; expires_at: number } | null> {
+		const session = this.env.HOME_ACCESS_KEY ? await verifySessionToken(this.env.HOME_ACCESS_KEY, token) : null;
+		const role = session && this.getAdminSessionRole(session.id);
+		if (!session || !role) {
+			return null;
+		}
+		return { ...session, role, csrf_token: await deriveCsrfToken(this.env.HOME_ACCESS_KEY, session.id) };
+	}
+
+	async revokeAdminSession(id: string, actor: string): Promise<void> {
+		this.ctx.storage.sql.exec('UPDATE admin_sessions SET revoked_at = ? WHERE id = ?', Math.floor(Date.now() / 1000), id);
+		this.insertAuditLog(actor, id, 'logout', []);
+	}
+
+	private getAuthLockouts(): Map<string, AuthLockout> {
+		this.authLockoutCache ??= new Map(
+			Array.from(this.ctx.storage.sql.exec('SELECT scope, ip, failures, lockouts, locked_until, last_failure_at FROM auth_lockouts').raw()).map(
+				([scope, ip, failures, lockouts, locked_until, last_failure_at]) => [
+					`${scope}:${ip}`,
+					{
+						failures: Number(failures),
+						lockouts: Number(lockouts),
+						locked_until: Number(locked_until),
+						last_failure_at: Number(last_failure_at),
+					},
+				]
+			)
+		);
+		return this.authLockoutCache;
+	}
+
+	// 返回剩余锁定秒数，未锁定时返回 0
+	private getAuthLockoutRemaining(scope: AuthScope, ip: string): number {
+		const lockout = this.getAuthLockouts().get(`${scope}:${ip}`);
+		return lockout ? Math.max(0, lockout.locked_until - Math.floor(Date.now() / 1000)) : 0;
+	}
+
+	// 记录一次认证失败，达到次数上限时锁定该 IP，返回本次触发的锁定秒数
+	private recordAuthFailure(scope: AuthScope, ip: string, path: string): number {
+		const now = Math.floor(Date.now() / 1000);
+		const key = `${scope}:${ip}`;
+		const previous = this.getAuthLockouts().get(key);
+		const lockout: AuthLockout = {
+			failures: previous && now - previous.last_failure_at <= AUTH_FAILURE_WINDOW_SECONDS ? previous.failures + 1 : 1,
+			lockouts: previous && now - previous.last_failure_at <= AUTH_LOCKOUT_RESET_SECONDS ? previous.lockouts : 0,
+			locked_until: previous?.locked_until ?? 0,
+			last_failure_at: now,
+		};
+		let lockedFor = 0;
+		if (lockout.failures >= Math.max(1, parseIntOr(this.env.AUTH_MAX_FAILURES, DEFAULT_AUTH_MAX_FAILURES))) {
+			const base = Math.max(1, parseIntOr(this.env.AUTH_LOCKOUT_SECONDS, DEFAULT_AUTH_LOCKOUT_SECONDS));
+			const max = Math.max(base, parseIntOr(this.env.AUTH_LOCKOUT_MAX_SECONDS, DEFAULT_AUTH_LOCKOUT_MAX_SECONDS));
+			lockedFor = Math.min(max, base * 2 ** lockout.lockouts);
+			lockout.lockouts += 1;
+			lockout.failures = 0;
+			lockout.locked_until = now + lockedFor;
+			console.warn(`${scope} authentication locked for ${ip} for ${lockedFor}s after repeated failures`);
+		}
+		this.getAuthLockouts().set(key, lockout);
+		this.ctx.storage.sql.exec(
+			'INSERT OR REPLACE INTO auth_lockouts (scope, ip, failures, lockouts, locked_until, last_failure_at) VALUES (?, ?, ?, ?, ?, ?)',
+			scope,
+			ip,
+			lockout.failures,
+			lockout.lockouts,
+			lockout.locked_until,
+			now
+		);
+		this.ctx.storage.sql.exec('INSERT INTO auth_failures (scope, ip, path, created_at) VALUES (?, ?, ?, ?)', scope, ip, path, now);
+		this.ctx.storage.sql.exec('DELETE FROM auth_failures WHERE created_at < ?', now - AUTH_FAILURE_LOG_RETENTION_SECONDS);
+		// 超过一天没有失败且已解锁的状态不再影响计数，一并清理
+		const staleBefore = now - AUTH_LOCKOUT_RESET_SECONDS;
+		for (const [staleKey, stale] of this.getAuthLockouts()) {
+			if (stale.last_failure_at < staleBefore && stale.locked_until <= now) {
+				this.getAuthLockouts().delete(staleKey);
+			}
+		}
+		this.ctx.storage.sql.exec('DELETE FROM auth_lockouts WHERE last_failure_at < ? AND locked_until <= ?', staleBefore, now);
+		return lockedFor;
+	}
+
+	// 认证成功后清除该 IP 的失败状态；没有失败记录时只查一次内存
+	private clearAuthFailures(scope: AuthScope, ip: string) {
+		if (this.getAuthLockouts().delete(`${scope}:${ip}`)) {
+			this.ctx.storage.sql.exec('DELETE FROM auth_lockouts WHERE scope = ? AND ip = ?', scope, ip);
+		}
+	}
+
+	private authLockedResponse(retryAfter: number): Response {
+		return new Response(JSON.stringify({ error: `认证失败次数过多，请在 ${retryAfter} 秒后重试。` }), {
+			status: 429,
+			headers: fixCors({ headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) } }).headers,
+		});
+	}
+
+	private addColumnIfMissing(table: string, definition: string) {
 		try {
-			this.ctx.storage.sql.exec('ALTER TABLE api_keys ADD COLUMN total_calls INTEGER DEFAULT 0');
+			this.ctx.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
 		} catch (e: any) {
 			// Ignore error if column already exists
 			if (!e.message.includes('duplicate column name')) {
@@ -76,21 +988,20 @@ export class LoadBalancer extends DurableObject {
 
 		// 处理获取下一个API密钥的请求
 		if (pathname === '/api/next-key' && request.method === 'GET') {
-			if (!isAdminAuthenticated(request, this.env.HOME_ACCESS_KEY)) {
-				return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-					status: 401,
-					headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
-				});
+			const rejected = await this.checkAdminRequest(request);
+			if (rejected) {
+				return rejected;
 			}
 			try {
-				const key = await this.getNextApiKeyInRotation();
-				if (!key) {
+				const selected = await this.getNextApiKeyInRotation();
+				if (!selected) {
 					return new Response(JSON.stringify({ error: '没有可用的API密钥' }), {
 						status: 500,
 						headers: { 'Content-Type': 'application/json', ...fixCors({}).headers },
 					});
 				}
-				return new Response(JSON.stringify({ key }), {
+				// 只返回指纹和脱敏后的密钥，完整密钥需要通过 POST /api/keys/reveal 查看
+				return new Response(JSON.stringify({ fingerprint: selected.fingerprint, masked_key: maskApiKey(selected.key) }), {
 					status: 200,
 					headers: { 'Content-Type': 'application/json', ...fixCors({}).headers },
 				});
@@ -108,13 +1019,32 @@ export class LoadBalancer extends DurableObject {
 			(pathname === '/api/keys' && ['POST', 'GET', 'DELETE'].includes(request.method)) ||
 			(pathname === '/api/keys/check' && request.method === 'GET') ||
 			(pathname === '/api/keys/stats' && request.method === 'GET') ||
-			(pathname === '/api/keys/all' && request.method === 'DELETE')
+			(pathname === '/api/keys/all' && request.method === 'DELETE') ||
+			(pathname === '/api/keys/strategy' && ['GET', 'PUT'].includes(request.method)) ||
+			(pathname === '/api/keys/weight' && request.method === 'PUT') ||
+			(pathname === '/api/quotas' && ['GET', 'PUT', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/keys/pools' && request.method === 'GET') ||
+			(pathname === '/api/keys/pool' && request.method === 'PUT') ||
+			(pathname === '/api/keys/rules' && ['GET', 'POST', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/keys/enable' && request.method === 'POST') ||
+			(pathname === '/api/keys/disable' && request.method === 'POST') ||
+			(pathname === '/api/keys/disabled' && request.method === 'DELETE') ||
+			(pathname === '/api/keys/reveal' && request.method === 'POST') ||
+			(pathname === '/api/keys/affinities' && ['GET', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/client-keys' && ['GET', 'POST', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/client-keys/enable' && request.method === 'POST') ||
+			(pathname === '/api/client-keys/disable' && request.method === 'POST') ||
+			(pathname === '/api/client-keys/rotate' && request.method === 'POST') ||
+			(pathname === '/api/client-limits' && ['GET', 'PUT', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/model-policies' && ['GET', 'PUT', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/auth-failures' && ['GET', 'DELETE'].includes(request.method)) ||
+			(pathname === '/api/audit' && request.method === 'GET') ||
+			(pathname === '/api/health-check' && ['GET', 'PUT'].includes(request.method)) ||
+			(pathname === '/api/health-check/history' && request.method === 'GET')
 		) {
-			if (!isAdminAuthenticated(request, this.env.HOME_ACCESS_KEY)) {
-				return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-					status: 401,
-					headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
-				});
+			const rejected = await this.checkAdminRequest(request);
+			if (rejected) {
+				return rejected;
 			}
 			if (pathname === '/api/keys' && request.method === 'POST') {
 				return this.handleApiKeys(request);
@@ -126,69 +1056,180 @@ export class LoadBalancer extends DurableObject {
 				return this.handleDeleteApiKeys(request);
 			}
 			if (pathname === '/api/keys/all' && request.method === 'DELETE') {
-				return this.handleDeleteAllKeys();
+				return this.handleDeleteAllKeys(request);
 			}
 			if (pathname === '/api/keys/check' && request.method === 'GET') {
-				return this.handleApiKeysCheck();
+				return this.handleApiKeysCheck(request);
 			}
 			if (pathname === '/api/keys/stats' && request.method === 'GET') {
 				return this.handleApiKeysStats();
 			}
-		}
-
-		const search = url.search;
-
-		// OpenAI compatible routes
-		if (
+			if (pathname === '/api/keys/strategy' && request.method === 'GET') {
+				return this.handleGetStrategy();
+			}
+			if (pathname === '/api/keys/strategy' && request.method === 'PUT') {
+				return this.handleSetStrategy(request);
+			}
+			if (pathname === '/api/keys/weight' && request.method === 'PUT') {
+				return this.handleSetKeyWeight(request);
+			}
+			if (pathname === '/api/health-check' && request.method === 'GET') {
+				return this.handleGetHealthCheck();
+			}
+			if (pathname === '/api/health-check' && request.method === 'PUT') {
+				return this.handleSetHealthCheck(request);
+			}
+			if (pathname === '/api/health-check/history' && request.method === 'GET') {
+				return this.handleGetHealthCheckHistory(url);
+			}
+			if (pathname === '/api/keys/enable' && request.method === 'POST') {
+				return this.handleSetKeysEnabled(request, true);
+			}
+			if (pathname === '/api/keys/disable' && request.method === 'POST') {
+				return this.handleSetKeysEnabled(request, false);
+			}
+			if (pathname === '/api/keys/disabled' && request.method === 'DELETE') {
+				return this.handlePurgeDisabledKeys(request);
+			}
+			if (pathname === '/api/keys/reveal' && request.method === 'POST') {
+				return this.handleRevealApiKey(request);
+			}
+			if (pathname === '/api/keys/affinities' && request.method === 'GET') {
+				return this.handleGetAffinities();
+			}
+			if (pathname === '/api/keys/affinities' && request.method === 'DELETE') {
+				return this.handleDeleteAffinities(request);
+			}
+			if (pathname === '/api/client-keys' && request.method === 'GET') {
+				return this.handleGetClientKeys();
+			}
+			if (pathname === '/api/client-keys' && request.method === 'POST') {
+				return this.handleCreateClientKey(request);
+			}
+			if (pathname === '/api/client-keys' && request.method === 'DELETE') {
+				return this.handleDeleteClientKeys(request);
+			}
+			if (pathname === '/api/client-keys/enable' && request.method === 'POST') {
+				return this.handleSetClientKeysEnabled(request, true);
+			}
+			if (pathname === '/api/client-keys/disable' && request.method === 'POST') {
+				return this.handleSetClientKeysEnabled(request, false);
+			}
+			if (pathname === '/api/client-keys/rotate' && request.method === 'POST') {
+				return this.handleRotateClientKey(request);
+			}
+			if (pathname === '/api/client-limits' && request.method === 'GET') {
+				return this.handleGetClientLimits();
+			}
+			if (pathname === '/api/client-limits' && request.method === 'PUT') {
+				return this.handleSetClientLimit(request);
+			}
+			if (pathname === '/api/client-limits' && request.method === 'DELETE') {
+				return this.handleDeleteClientLimits(request);
+			}
+			if (pathname === '/api/model-policies' && request.method === 'GET') {
+				return this.handleGetModelPolicies();
+			}
+			if (pathname === '/api/model-policies' && request.method === 'PUT') {
+				return this.handleSetModelPolicy(request);
+			}
+			if (pathname === '/api/model-policies' && request.method === 'DELETE') {
+				return this.handleDeleteModelPolicies(request);
+			}
+			if (pathname === '/api/audit' && request.method === 'GET') {
+				return this.handleGetAuditLogs(url);
+			}
+			if (pathname === '/api/auth-failures' && request.method === 'GET') {
+				return this.handleGetAuthFailures(url);
+			}
+			if (pathname === '/api/auth-failures' && request.method === 'DELETE') {
+				return this.handleDeleteAuthLockouts(request);
+			}
+			if (pathname === '/api/keys/pools' && request.method === 'GET') {
+				return this.handleGetPools();
+			}
+			if (pathname === '/api/keys/pool' && request.method === 'PUT') {
+				return this.handleSetKeyPool(request);
+			}
+			if (pathname === '/api/keys/rules' && request.method === 'GET') {
+				return this.handleGetRoutingRules();
+			}
+			if (pathname === '/api/keys/rules' && request.method === 'POST') {
+				return this.handleAddRoutingRule(request);
+			}
+			if (pathname === '/api/keys/rules' && request.method === 'DELETE') {
+				return this.handleDeleteRoutingRules(request);
+			}
+			if (pathname === '/api/quotas' && request.method === 'GET') {
+				return this.handleGetQuotas();
+			}
+			if (pathname === '/api/quotas' && request.method === 'PUT') {
+				return this.handleSetQuota(request);
+			}
+			if (pathname === '/api/quotas' && request.method === 'DELETE') {
+				return this.handleDeleteQuotas(request);
+			}
+		}
+
+		const search = url.search;
+
+		// OpenAI compatible routes
+		if (
 			pathname.endsWith('/chat/completions') ||
 			pathname.endsWith('/completions') ||
 			pathname.endsWith('/embeddings') ||
-			pathname.endsWith('/v1/models')
+			pathname.endsWith('/responses') ||
+			pathname.endsWith('/v1/models') ||
+			isOpenAiPath(pathname)
 		) {
 			return this.handleOpenAI(request);
 		}
 
 		// Direct Gemini proxy
-		const authKey = this.env.AUTH_KEY;
-
 		let targetUrl = `${BASE_URL}${pathname}${search}`;
 
-		if (this.env.FORWARD_CLIENT_KEY_ENABLED) {
-			return this.forwardRequestWithLoadBalancing(targetUrl, request);
+		let caller: ClientIdentity | null = null;
+		if (!this.env.FORWARD_CLIENT_KEY_ENABLED && this.isClientAuthRequired()) {
+			// Check key in query parameters first, then x-goog-api-key in headers
+			const requestKey = url.searchParams.get('key') ?? request.headers.get('x-goog-api-key');
+			const authenticated = await this.authenticateProxyRequest(request, requestKey);
+			if (authenticated instanceof Response) {
+				return authenticated;
+			}
+			caller = authenticated;
 		}
 
-		if (authKey) {
-			let isAuthorized = false;
-			// Check key in query parameters
-			if (search.includes('key=')) {
-				const urlObj = new URL(targetUrl);
-				const requestKey = urlObj.searchParams.get('key');
-				if (requestKey && requestKey === authKey) {
-					isAuthorized = true;
-				}
-			} else {
-				// Check x-goog-api-key in headers
-				const requestKey = request.headers.get('x-goog-api-key');
-				if (requestKey && requestKey === authKey) {
-					isAuthorized = true;
-				}
-			}
+		const model = extractModelFromPath(pathname);
+		if (model && !this.isModelAllowed(this.getModelPolicy(caller), model)) {
+			await request.arrayBuffer();
+			return this.modelNotAllowedResponse(model, 'gemini');
+		}
 
-			if (!isAuthorized) {
-				return new Response('Unauthorized', { status: 401, headers: fixCors({}).headers });
+		if (caller) {
+			// 原生接口只计入请求数，token 用量只统计 OpenAI 兼容的对话接口
+			const check = this.checkClientLimits(caller);
+			if (check.exceeded.length > 0) {
+				await request.arrayBuffer();
+				return this.clientRateLimitResponse(caller, check, 'gemini');
 			}
+			return this.withRateLimitHeaders(await this.forwardRequestWithLoadBalancing(targetUrl, request), check.statuses);
 		}
-		// If authKey is not set, or if it was authorized, proceed to forward with load balancing.
+		// If no client key is configured, or if it was authorized, proceed to forward with load balancing.
 		return this.forwardRequestWithLoadBalancing(targetUrl, request);
 	}
 
-	async forwardRequest(targetUrl: string, request: Request, headers: Headers): Promise<Response> {
-		console.log(`Request Sending to Gemini: ${targetUrl}`);
+	async forwardRequest(targetUrl: string, request: Request, headers: Headers, body?: BodyInit | null): Promise<Response> {
+		// 透传模式下 URL 中可能带有客户端的 key 参数，日志中去掉
+		const logUrl = new URL(targetUrl);
+		if (logUrl.searchParams.has('key')) {
+			logUrl.searchParams.set('key', '***');
+		}
+		console.log(`Request Sending to Gemini: ${logUrl}`);
 
-		const response = await fetch(targetUrl, {
+		const response = await fetchUpstream(targetUrl, {
 			method: request.method,
 			headers: headers,
-			body: request.method === 'GET' || request.method === 'HEAD' ? null : request.body,
+			body: request.method === 'GET' || request.method === 'HEAD' ? null : body !== undefined ? body : request.body,
 		});
 
 		console.log('Call Gemini Success');
@@ -221,15 +1262,45 @@ export class LoadBalancer extends DurableObject {
 			if (this.env.FORWARD_CLIENT_KEY_ENABLED) {
 				return this.forwardRequest(url.toString(), request, headers);
 			}
-			const apiKey = await this.getNextApiKeyInRotation();
-			if (!apiKey) {
+
+			// 先缓存请求体，切换密钥重试时才能重放
+			const body = request.method === 'GET' || request.method === 'HEAD' ? null : await request.arrayBuffer();
+			const isCreatingCache = request.method === 'POST' && url.pathname.endsWith('/cachedContents');
+			const response = await this.fetchWithKeyFailover(
+				async (apiKey) => {
+					const attemptUrl = new URL(url);
+					const attemptHeaders = new Headers(headers);
+					// 密钥只放在 x-goog-api-key 请求头中，去掉客户端在查询参数中携带的 key，避免完整密钥出现在 URL 和日志里
+					attemptUrl.searchParams.delete('key');
+					attemptHeaders.set('x-goog-api-key', apiKey);
+					const response = await this.forwardRequest(attemptUrl.toString(), request, attemptHeaders, body);
+					if (isCreatingCache && response.ok) {
+						// 新建的缓存内容只能由创建它的密钥访问，记录下来供后续请求使用
+						const { name } = (await response.clone().json()) as { name?: string };
+						if (name) {
+							this.pinKeyAffinity(`cache:${name}`, await keyFingerprint(apiKey));
+						}
+					}
+					return response;
+				},
+				{
+					route: classifyNativeRoute(url.pathname),
+					model: extractModelFromPath(url.pathname),
+					affinity: resolveKeyAffinity(request, extractCachedContentFromPath(url.pathname) ?? this.extractCachedContentFromBody(request, body)),
+				}
+			);
+			if (!response) {
 				return new Response('No API keys configured in the load balancer.', { status: 500 });
 			}
-
-			url.searchParams.set('key', apiKey);
-			headers.set('x-goog-api-key', apiKey);
-			return this.forwardRequest(url.toString(), request, headers);
+			return response;
 		} catch (error) {
+			if (error instanceof QuotaExhaustedError) {
+				// 与 Gemini 原生的配额错误格式保持一致
+				return new Response(JSON.stringify({ error: { code: 429, message: error.message, status: 'RESOURCE_EXHAUSTED' } }), {
+					status: 429,
+					headers: fixCors({ headers: { 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfter) } }).headers,
+				});
+			}
 			console.error('Failed to fetch:', error);
 			return new Response('Internal Server Error\n' + error, {
 				status: 500,
@@ -238,8 +1309,217 @@ export class LoadBalancer extends DurableObject {
 		}
 	}
 
-	async handleModels(apiKey: string) {
-		const response = await fetch(`${BASE_URL}/${API_VERSION}/models`, {
+	// 从原生请求体中读取 cachedContent 字段，例如 generateContent 使用已有缓存的请求
+	private extractCachedContentFromBody(request: Request, body: ArrayBuffer | null): string | undefined {
+		if (!body || !request.headers.get('content-type')?.includes('json')) {
+			return undefined;
+		}
+		try {
+			const { cachedContent } = JSON.parse(new TextDecoder().decode(body));
+			return typeof cachedContent === 'string' ? cachedContent : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private getAffinityTtl() {
+		return Math.max(1, parseIntOr(this.env.KEY_AFFINITY_TTL_SECONDS, DEFAULT_KEY_AFFINITY_TTL_SECONDS));
+	}
+
+	// 查询亲和标识当前绑定的密钥指纹，已过期的映射视为不存在
+	private getKeyAffinity(affinity: string, now: number): { fingerprint: string; expires_at: number } | null {
+		const row = Array.from(
+			this.ctx.storage.sql.exec('SELECT fingerprint, expires_at FROM key_affinities WHERE affinity = ? AND expires_at > ?', affinity, now).raw()
+		)[0];
+		return row ? { fingerprint: String(row[0]), expires_at: Number(row[1]) } : null;
+	}
+
+	// 绑定或续期亲和映射，同时清理过期的映射
+	private pinKeyAffinity(affinity: string, fingerprint: string) {
+		const now = Math.floor(Date.now() / 1000);
+		this.ctx.storage.sql.exec('DELETE FROM key_affinities WHERE expires_at <= ?', now);
+		this.ctx.storage.sql.exec(
+			'INSERT INTO key_affinities (affinity, fingerprint, expires_at) VALUES (?, ?, ?) ON CONFLICT(affinity) DO UPDATE SET fingerprint = excluded.fingerprint, expires_at = excluded.expires_at',
+			affinity,
+			fingerprint,
+			now + this.getAffinityTtl()
+		);
+	}
+
+	private getRetryConfig() {
+		const statusCodes = String(this.env.RETRY_STATUS_CODES ?? '')
+			.split(',')
+			.map((code) => parseInt(code.trim(), 10))
+			.filter((code) => !Number.isNaN(code));
+		return {
+			maxAttempts: Math.max(1, parseIntOr(this.env.RETRY_MAX_ATTEMPTS, DEFAULT_RETRY_MAX_ATTEMPTS)),
+			backoffMs: Math.max(0, parseIntOr(this.env.RETRY_BACKOFF_MS, DEFAULT_RETRY_BACKOFF_MS)),
+			statusCodes: statusCodes.length > 0 ? statusCodes : DEFAULT_RETRY_STATUS_CODES,
+		};
+	}
+
+	/**
+	 * 使用轮询出的密钥发送上游请求，遇到可重试的状态码或网络错误时换下一个密钥重试，
+	 * 直到成功或次数用尽。没有任何可用密钥时返回 null。
+	 */
+	private async fetchWithKeyFailover(
+		send: (apiKey: string) => Promise<Response>,
+		selection: KeySelectionOptions = {}
+	): Promise<Response | null> {
+		const { maxAttempts, backoffMs, statusCodes } = this.getRetryConfig();
+		// 已尝试过的密钥指纹
+		const triedKeys: string[] = [];
+		let last: { response: Response; fingerprint: string } | undefined;
+		let lastError: unknown;
+		// 选择密钥累计耗时，通过 Server-Timing 响应头返回，便于压测观察热路径开销
+		let selectMs = 0;
+
+		while (triedKeys.length < maxAttempts) {
+			let selected: SelectedKey | null;
+			const selectStart = Date.now();
+			try {
+				selected = await this.getNextApiKeyInRotation({ ...selection, exclude: triedKeys });
+			} catch (error) {
+				// 重试过程中剩余密钥的配额耗尽时，返回上一次的失败结果
+				if (last || lastError) {
+					break;
+				}
+				throw error;
+			} finally {
+				selectMs += Date.now() - selectStart;
+			}
+			if (!selected) {
+				break;
+			}
+			if (triedKeys.length > 0) {
+				// 丢弃上一次失败的响应，指数退避后重试
+				await last?.response.body?.cancel();
+				last = undefined;
+				await sleep(backoffMs * 2 ** (triedKeys.length - 1));
+			}
+			triedKeys.push(selected.fingerprint);
+
+			try {
+				const response = await send(selected.key);
+				await this.recordKeyResult(selected.fingerprint, response);
+				if (!statusCodes.includes(response.status)) {
+					return this.withFailoverHeaders(response, triedKeys.length, selected.fingerprint, selectMs);
+				}
+				console.warn(`Gemini returned ${response.status} on attempt ${triedKeys.length}/${maxAttempts}, trying next key`);
+				last = { response, fingerprint: selected.fingerprint };
+			} catch (error) {
+				// 只有上游网络错误才换密钥重试；请求参数错误等其它异常与密钥无关，换密钥也无济于事
+				if (!(error instanceof UpstreamFetchError)) {
+					throw error;
+				}
+				console.error(`Gemini request failed on attempt ${triedKeys.length}/${maxAttempts}:`, error);
+				lastError = error;
+			}
+		}
+
+		if (last) {
+			return this.withFailoverHeaders(last.response, triedKeys.length, last.fingerprint, selectMs);
+		}
+		if (lastError) {
+			throw lastError;
+		}
+		return null;
+	}
+
+	/**
+	 * 根据上游响应更新密钥的熔断状态：触发熔断的状态码使密钥进入冷却，冷却时长随连续失败次数指数增长；
+	 * 其它非 5xx 响应说明密钥可用，清除失败计数。
+	 */
+	private async recordKeyResult(fingerprint: string, response: Response) {
+		try {
+			if (COOLDOWN_STATUS_CODES.includes(response.status)) {
+				await this.markKeyCooldown(fingerprint, await this.describeUpstreamError(response));
+			} else if (response.status < 500) {
+				// 绝大多数请求的密钥本来就是正常状态，按内存中的状态判断，避免每次都写入
+				const cached = this.keyCache?.find((key) => key.fingerprint === fingerprint);
+				if (cached && cached.status === 'active' && cached.consecutive_failures === 0) {
+					return;
+				}
+				await this.ctx.storage.sql.exec(
+					"UPDATE api_keys SET status = 'active', cooldown_until = 0, consecutive_failures = 0 WHERE fingerprint = ? AND status != 'disabled' AND (status != 'active' OR consecutive_failures > 0)",
+					fingerprint
+				);
+				if (cached && cached.status !== 'disabled') {
+					this.updateCachedKey(fingerprint, { status: 'active', cooldown_until: 0, consecutive_failures: 0 });
+				}
+			}
+		} catch (error) {
+			console.error('更新密钥熔断状态失败:', error);
+		}
+	}
+
+	// 让密钥进入冷却，冷却时长随连续失败次数指数增长；已禁用的密钥保持禁用
+	private async markKeyCooldown(fingerprint: string, lastError: string) {
+		const now = Math.floor(Date.now() / 1000);
+		const row = Array.from(await this.ctx.storage.sql.exec('SELECT consecutive_failures FROM api_keys WHERE fingerprint = ?', fingerprint).raw())[0];
+		const failures = ((row?.[0] as number) ?? 0) + 1;
+		const base = Math.max(1, parseIntOr(this.env.KEY_COOLDOWN_SECONDS, DEFAULT_KEY_COOLDOWN_SECONDS));
+		const max = Math.max(base, parseIntOr(this.env.KEY_COOLDOWN_MAX_SECONDS, DEFAULT_KEY_COOLDOWN_MAX_SECONDS));
+		const cooldown = Math.min(max, base * 2 ** (failures - 1));
+		await this.ctx.storage.sql.exec(
+			"UPDATE api_keys SET status = 'cooldown', cooldown_until = ?, consecutive_failures = ?, last_error = ?, last_error_at = ? WHERE fingerprint = ? AND status != 'disabled'",
+			now + cooldown,
+			failures,
+			lastError,
+			now,
+			fingerprint
+		);
+		if (this.keyCache?.find((key) => key.fingerprint === fingerprint)?.status !== 'disabled') {
+			this.updateCachedKey(fingerprint, { status: 'cooldown', cooldown_until: now + cooldown, consecutive_failures: failures });
+		}
+		console.warn(`API key ${fingerprint} cooling down for ${cooldown}s after ${failures} failure(s): ${lastError}`);
+	}
+
+	private async disableKeys(fingerprints: string[], reason: string) {
+		const now = Math.floor(Date.now() / 1000);
+		const batchSize = 500;
+		for (let i = 0; i < fingerprints.length; i += batchSize) {
+			const batch = fingerprints.slice(i, i + batchSize);
+			const placeholders = batch.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(
+				`UPDATE api_keys SET status = 'disabled', disabled_reason = ?, disabled_at = ? WHERE fingerprint IN (${placeholders})`,
+				reason,
+				now,
+				...batch
+			);
+		}
+		this.invalidateKeyCache();
+	}
+
+	// 提取上游错误的状态和信息，例如 "429 RESOURCE_EXHAUSTED: Quota exceeded ..."
+	private async describeUpstreamError(response: Response): Promise<string> {
+		let detail = response.statusText;
+		try {
+			const text = await response.clone().text();
+			try {
+				const { error } = JSON.parse(text);
+				detail = [error?.status, error?.message].filter(Boolean).join(': ') || text;
+			} catch {
+				detail = text;
+			}
+		} catch {}
+		return `${response.status} ${detail}`.substring(0, 500);
+	}
+
+	private withFailoverHeaders(response: Response, attempts: number, fingerprint: string, selectMs: number): Response {
+		const headers = new Headers(response.headers);
+		headers.set('X-Gemini-Balance-Attempts', String(attempts));
+		headers.set('X-Gemini-Balance-Key', fingerprint);
+		headers.append('Server-Timing', `key-select;dur=${selectMs}`);
+		return new Response(response.body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		});
+	}
+
+	async handleModels(apiKey: string, isAllowed: (model: string) => boolean = () => true) {
+		const response = await fetchUpstream(`${BASE_URL}/${API_VERSION}/models`, {
 			headers: makeHeaders(apiKey),
 		});
 
@@ -249,12 +1529,15 @@ export class LoadBalancer extends DurableObject {
 			responseBody = JSON.stringify(
 				{
 					object: 'list',
-					data: models.map(({ name }: any) => ({
-						id: name.replace('models/', ''),
-						object: 'model',
-						created: 0,
-						owned_by: '',
-					})),
+					data: models
+						.map(({ name }: any) => name.replace('models/', ''))
+						.filter(isAllowed)
+						.map((id: string) => ({
+							id,
+							object: 'model',
+							created: 0,
+							owned_by: '',
+						})),
 				},
 				null,
 				'  '
@@ -263,28 +1546,28 @@ export class LoadBalancer extends DurableObject {
 		return new Response(responseBody, fixCors(response));
 	}
 
-	async handleEmbeddings(req: any, apiKey: string) {
-		const DEFAULT_EMBEDDINGS_MODEL = 'text-embedding-004';
-
+	// 解析嵌入请求实际使用的模型，返回带 models/ 前缀的完整名称
+	private resolveEmbeddingsModel(req: any, defaultModel = DEFAULT_EMBEDDINGS_MODEL): string {
 		if (typeof req.model !== 'string') {
 			throw new HttpError('model is not specified', 400);
 		}
 
-		let model;
 		if (req.model.startsWith('models/')) {
-			model = req.model;
-		} else {
-			if (!req.model.startsWith('gemini-')) {
-				req.model = DEFAULT_EMBEDDINGS_MODEL;
-			}
-			model = 'models/' + req.model;
+			return req.model;
 		}
+		if (!req.model.startsWith('gemini-')) {
+			req.model = defaultModel;
+		}
+		return 'models/' + req.model;
+	}
+
+	async handleEmbeddings(req: any, apiKey: string, model = this.resolveEmbeddingsModel(req)) {
 
 		if (!Array.isArray(req.input)) {
 			req.input = [req.input];
 		}
 
-		const response = await fetch(`${BASE_URL}/${API_VERSION}/${model}:batchEmbedContents`, {
+		const response = await fetchUpstream(`${BASE_URL}/${API_VERSION}/${model}:batchEmbedContents`, {
 			method: 'POST',
 			headers: makeHeaders(apiKey, { 'Content-Type': 'application/json' }),
 			body: JSON.stringify({
@@ -316,9 +1599,9 @@ export class LoadBalancer extends DurableObject {
 		return new Response(responseBody, fixCors(response));
 	}
 
-	async handleCompletions(req: any, apiKey: string) {
-		const DEFAULT_MODEL = 'gemini-2.5-flash';
-		let model = DEFAULT_MODEL;
+	// 解析对话请求实际使用的模型，未知模型回退到默认模型
+	private resolveCompletionsModel(req: any, defaultModel = DEFAULT_CHAT_MODEL): string {
+		let model = defaultModel;
 
 		switch (true) {
 			case typeof req.model !== 'string':
@@ -331,6 +1614,10 @@ export class LoadBalancer extends DurableObject {
 			case req.model.startsWith('learnlm-'):
 				model = req.model;
 		}
+		return model;
+	}
+
+	async handleCompletions(req: any, apiKey: string, model = this.resolveCompletionsModel(req), onTokens?: (tokens: number) => void) {
 
 		let body = await this.transformRequest(req);
 		const extra = req.extra_body?.google;
@@ -362,7 +1649,7 @@ export class LoadBalancer extends DurableObject {
 			url += '?alt=sse';
 		}
 
-		const response = await fetch(url, {
+		const response = await fetchUpstream(url, {
 			method: 'POST',
 			headers: makeHeaders(apiKey, { 'Content-Type': 'application/json' }),
 			body: JSON.stringify(body),
@@ -371,7 +1658,7 @@ export class LoadBalancer extends DurableObject {
 		let responseBody: BodyInit | null = response.body;
 		if (response.ok) {
 			let id = 'chatcmpl-' + this.generateId();
-			const shared = {};
+			const shared = { onTokens, reportedTokens: 0 };
 
 			if (req.stream) {
 				responseBody = response
@@ -391,7 +1678,8 @@ export class LoadBalancer extends DurableObject {
 							streamIncludeUsage: req.stream_options?.include_usage,
 							model,
 							id,
-							last: [],
+							candidates: new Map(),
+							generateId: this.generateId,
 							shared,
 						} as any)
 					)
@@ -410,7 +1698,7 @@ export class LoadBalancer extends DurableObject {
 						status: 500,
 					});
 				}
-				responseBody = this.processCompletionsResponse(body, model, id);
+				responseBody = this.processCompletionsResponse(body, model, id, onTokens);
 			}
 		}
 		return new Response(responseBody, fixCors(response));
@@ -492,8 +1780,11 @@ export class LoadBalancer extends DurableObject {
 					throw new HttpError('Unsupported response_format.type', 400);
 			}
 		}
-		if (req.reasoning_effort) {
-			cfg.thinkingConfig = { thinkingBudget: thinkingBudgetMap[req.reasoning_effort] };
+		// none 和 minimal 关闭思考（gemini-2.5-pro 不支持关闭）；开启思考时返回思考摘要，作为 reasoning_content 输出
+		if (req.reasoning_effort === 'none' || req.reasoning_effort === 'minimal') {
+			cfg.thinkingConfig = { thinkingBudget: 0 };
+		} else if (req.reasoning_effort) {
+			cfg.thinkingConfig = { thinkingBudget: thinkingBudgetMap[req.reasoning_effort], includeThoughts: true };
 		}
 
 		return cfg;
@@ -518,8 +1809,9 @@ export class LoadBalancer extends DurableObject {
 				case 'assistant':
 					role = 'model';
 					currentParts = await this.transformMsg(item);
+					// 回传的 reasoning_content 标记为思考内容，不作为模型的回复
 					if (item.reasoning_content && item.reasoning_content !== '[undefined]') {
-						currentParts.unshift({ text: item.reasoning_content });
+						currentParts.unshift({ text: item.reasoning_content, thought: true });
 					}
 					if (item.tool_calls) {
 						for (const call of item.tool_calls) {
@@ -629,15 +1921,16 @@ export class LoadBalancer extends DurableObject {
 	private async parseImg(url: any) {
 		let mimeType, data;
 		if (url.startsWith('http://') || url.startsWith('https://')) {
+			// 图片地址由客户端提供，获取失败属于请求错误
 			try {
 				const response = await fetch(url);
 				if (!response.ok) {
 					throw new Error(`${response.status} ${response.statusText} (${url})`);
 				}
 				mimeType = response.headers.get('content-type');
-				data = Buffer.from(await response.arrayBuffer()).toString('base64');
+				data = toBase64(new Uint8Array(await response.arrayBuffer()));
 			} catch (err) {
-				throw new Error('Error fetching image: ' + (err as Error).message);
+				throw new HttpError('Error fetching image: ' + (err as Error).message, 400);
 			}
 		} else {
 			const match = url.match(/^data:(?<mimeType>.*?)(;base64)?,(?<data>.*)$/);
@@ -698,7 +1991,7 @@ export class LoadBalancer extends DurableObject {
 		return { tools, tool_config };
 	}
 
-	private processCompletionsResponse(data: any, model: string, id: string) {
+	private processCompletionsResponse(data: any, model: string, id: string, onTokens?: (tokens: number) => void) {
 		const reasonsMap: Record<string, string> = {
 			STOP: 'stop',
 			MAX_TOKENS: 'length',
@@ -711,7 +2004,9 @@ export class LoadBalancer extends DurableObject {
 			const tool_calls: any[] = [];
 
 			for (const part of cand.content?.parts ?? []) {
-				if (part.text) {
+				if (part.text && part.thought) {
+					message.reasoning_content = (message.reasoning_content || '') + part.text;
+				} else if (part.text) {
 					message.content = (message.content || '') + part.text;
 				}
 				if (part.functionCall) {
@@ -744,21 +2039,20 @@ export class LoadBalancer extends DurableObject {
 				index: cand.index || 0,
 				message: message,
 				logprobs: null,
-				finish_reason: reasonsMap[cand.finishReason] || cand.finishReason,
+				// 与流式响应一致，调用了函数时以 tool_calls 结束
+				finish_reason: cand.finishReason === 'STOP' && tool_calls.length > 0 ? 'tool_calls' : reasonsMap[cand.finishReason] || cand.finishReason,
 			};
 		};
 
+		onTokens?.(data.usageMetadata?.totalTokenCount ?? 0);
+
 		const obj = {
 			id,
 			choices: data.candidates.map(transformCandidatesMessage),
 			created: Math.floor(Date.now() / 1000),
 			model: data.modelVersion ?? model,
 			object: 'chat.completion',
-			usage: data.usageMetadata && {
-				completion_tokens: data.usageMetadata.candidatesTokenCount,
-				prompt_tokens: data.usageMetadata.promptTokenCount,
-				total_tokens: data.usageMetadata.totalTokenCount,
-			},
+			usage: data.usageMetadata && toOpenAiUsage(data.usageMetadata),
 		};
 
 		return JSON.stringify(obj);
@@ -801,101 +2095,87 @@ export class LoadBalancer extends DurableObject {
 
 		const { candidates, usageMetadata } = line;
 		if (usageMetadata) {
-			this.shared.usage = {
-				completion_tokens: usageMetadata.candidatesTokenCount,
-				prompt_tokens: usageMetadata.promptTokenCount,
-				total_tokens: usageMetadata.totalTokenCount,
-			};
+			this.shared.usage = toOpenAiUsage(usageMetadata);
+			// 每个分块的 usageMetadata 是累计值，只记录增量，客户端中途断开时已生成的部分也会计入
+			const total = usageMetadata.totalTokenCount ?? 0;
+			if (total > this.shared.reportedTokens) {
+				this.shared.onTokens?.(total - this.shared.reportedTokens);
+				this.shared.reportedTokens = total;
+			}
 		}
 
-		if (candidates) {
-			for (const cand of candidates) {
-				const { index, content, finishReason } = cand;
-				const currentParts = content?.parts || [];
-
-				// 1. 处理文本
-				const textParts = currentParts.filter((p: any) => p.text);
-				const text = textParts.map((p: any) => p.text).join('');
-
-				if (text || finishReason) {
-					if (this.last[index] === undefined) {
-						this.last[index] = '';
-					}
+		// 每个候选分别记录状态：是否已发送 role，以及已输出的工具调用数量（作为后续工具调用的 index）
+		for (const { index = 0, content, finishReason } of candidates ?? []) {
+			let state = this.candidates.get(index);
+			if (!state) {
+				state = { started: false, toolCalls: 0 };
+				this.candidates.set(index, state);
+			}
+			const parts = content?.parts || [];
+			const delta: any = {};
+			if (!state.started) {
+				delta.role = 'assistant';
+				state.started = true;
+			}
 
-					const lastText = this.last[index] || '';
-					let deltaText = '';
+			// Gemini 流式响应的每个分块只包含新生成的内容，文本直接作为增量；思考内容（thought 为 true）作为 reasoning_content
+			const reasoning = parts
+				.filter((p: any) => p.text && p.thought)
+				.map((p: any) => p.text)
+				.join('');
+			if (reasoning) {
+				delta.reasoning_content = reasoning;
+			}
+			const text = parts
+				.filter((p: any) => p.text && !p.thought)
+				.map((p: any) => p.text)
+				.join('');
+			if (text) {
+				delta.content = text;
+			}
 
-					if (text.startsWith(lastText)) {
-						deltaText = text.substring(lastText.length);
-					} else {
-						let i = 0;
-						while (i < text.length && i < lastText.length && text[i] === lastText[i]) {
-							i++;
-						}
-						deltaText = text.substring(i);
+			const tool_calls = parts
+				.filter((p: any) => p.functionCall)
+				.map((p: any) => {
+					const { name, args, ...rest } = p.functionCall;
+					const finalArgs = { ...args };
+					if (Object.keys(rest).length > 0) {
+						finalArgs.__gemini_extra__ = rest;
 					}
-
-					this.last[index] = text;
-
-					if (deltaText || (finishReason && finishReason !== 'STOP')) {
-						const obj = {
-							id: this.id,
-							object: 'chat.completion.chunk',
-							created: Math.floor(Date.now() / 1000),
-							model: this.model,
-							choices: [
-								{
-									index,
-									delta: { content: deltaText || null },
-									finish_reason: reasonsMap[finishReason] || finishReason,
-								},
-							],
-						};
-						controller.enqueue(`data: ${JSON.stringify(obj)}\n\n`);
+					let callId = 'call_' + this.generateId();
+					if (p.thoughtSignature) {
+						callId += '_sig_' + p.thoughtSignature;
 					}
-				}
+					// Gemini 一次返回完整的函数调用，id、名称和参数在同一个增量中发送
+					return {
+						index: state.toolCalls++,
+						id: callId,
+						type: 'function',
+						function: {
+							name,
+							arguments: JSON.stringify(finalArgs),
+						},
+					};
+				});
+			if (tool_calls.length > 0) {
+				delta.tool_calls = tool_calls;
+			}
 
-				// 2. 处理 functionCall
-				const callParts = currentParts.filter((p: any) => p.functionCall);
-				const tool_calls = callParts
-					.map((p: any, i: number) => {
-						const { name, args, ...rest } = p.functionCall;
-						const thoughtSignature = p.thoughtSignature;
-						const finalArgs = { ...args };
-						if (Object.keys(rest).length > 0) {
-							finalArgs.__gemini_extra__ = rest;
-						}
-						let callId = 'call_' + Math.random().toString(36).substring(7);
-						if (thoughtSignature) {
-							callId += '_sig_' + thoughtSignature;
-						}
-						return {
-							index: i,
-							id: callId,
-							type: 'function',
-							function: {
-								name,
-								arguments: JSON.stringify(finalArgs),
-							},
-						};
-					});
+			// 调用了函数的候选以 tool_calls 结束，其它结束原因不变
+			let finish_reason = null;
+			if (finishReason) {
+				finish_reason = finishReason === 'STOP' && state.toolCalls > 0 ? 'tool_calls' : reasonsMap[finishReason] || finishReason;
+			}
 
-				if (tool_calls.length > 0) {
-					const obj = {
-						id: this.id,
-						object: 'chat.completion.chunk',
-						created: Math.floor(Date.now() / 1000),
-						model: this.model,
-						choices: [
-							{
-								index,
-								delta: { tool_calls },
-								finish_reason: reasonsMap[finishReason] || finishReason,
-							},
-						],
-					};
-					controller.enqueue(`data: ${JSON.stringify(obj)}\n\n`);
-				}
+			if (Object.keys(delta).length > 0 || finish_reason) {
+				const obj = {
+					id: this.id,
+					object: 'chat.completion.chunk',
+					created: Math.floor(Date.now() / 1000),
+					model: this.model,
+					choices: [{ index, delta, logprobs: null, finish_reason }],
+				};
+				controller.enqueue(`data: ${JSON.stringify(obj)}\n\n`);
 			}
 		}
 	}
@@ -907,89 +2187,2149 @@ export class LoadBalancer extends DurableObject {
 				object: 'chat.completion.chunk',
 				created: Math.floor(Date.now() / 1000),
 				model: this.model,
-				choices: [
-					{
-						index: 0,
-						delta: {},
-						finish_reason: 'stop',
-					},
-				],
+				choices: [],
 				usage: this.shared.usage,
 			};
 			controller.enqueue(`data: ${JSON.stringify(obj)}\n\n`);
 		}
 		controller.enqueue('data: [DONE]\n\n');
 	}
+
 	// =================================================================================================
-	// Admin API Handlers
+	// OpenAI Responses API
 	// =================================================================================================
 
-	async handleDeleteAllKeys(): Promise<Response> {
-		try {
-			await this.ctx.storage.sql.exec('DELETE FROM api_keys');
-			return new Response(JSON.stringify({ message: '所有API密钥已成功删除。' }), {
-				status: 200,
-				headers: { 'Content-Type': 'application/json' },
+	/**
+	 * /v1/responses：先把请求转换为 chat completions 格式，复用 handleCompletions 的转换和请求逻辑，
+	 * 再把结果（或 chat completion 的流式分块）转换为 Responses 的响应对象和事件流。
+	 */
+	async handleResponses(req: any, apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		const chatReq = { ...this.transformResponsesRequest(req), model: req.model ?? model, stream: Boolean(req.stream) };
+		if (req.stream) {
+			chatReq.stream_options = { include_usage: true };
+		}
+		const response = await this.handleCompletions(chatReq, apiKey, model, onTokens);
+		if (!response.ok) {
+			return response;
+		}
+
+		const id = 'resp_' + this.generateId();
+		if (req.stream) {
+			const body = response
+				.body!.pipeThrough(new TextDecoderStream())
+				.pipeThrough(
+					new TransformStream({
+						transform: this.toResponsesStream,
+						flush: this.toResponsesStreamFlush,
+						buffer: '',
+						sequence: 0,
+						items: [],
+						toolItems: new Map(),
+						response: this.createResponseObject(id, req, model),
+						createResponseObject: this.createResponseObject,
+						generateId: this.generateId,
+					} as any)
+				)
+				.pipeThrough(new TextEncoderStream());
+			return new Response(body, response);
+		}
+
+		const completion: any = await response.json();
+		const choice = completion.choices?.[0];
+		const output: any[] = [];
+		if (choice?.message?.reasoning_content) {
+			output.push({
+				type: 'reasoning',
+				id: 'rs_' + this.generateId(),
+				summary: [{ type: 'summary_text', text: choice.message.reasoning_content }],
 			});
-		} catch (error: any) {
-			console.error('删除所有API密钥失败:', error);
-			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
-				status: 500,
-				headers: { 'Content-Type': 'application/json' },
+		}
+		if (choice?.message?.content) {
+			output.push({
+				type: 'message',
+				id: 'msg_' + this.generateId(),
+				status: 'completed',
+				role: 'assistant',
+				content: [{ type: 'output_text', text: choice.message.content, annotations: [] }],
+			});
+		}
+		for (const call of choice?.message?.tool_calls ?? []) {
+			output.push({
+				type: 'function_call',
+				id: 'fc_' + this.generateId(),
+				call_id: call.id,
+				name: call.function.name,
+				arguments: call.function.arguments,
+				status: 'completed',
 			});
 		}
+		const obj = {
+			...this.createResponseObject(id, req, completion.model ?? model, completion.created),
+			...responseStatusFromFinishReason(choice?.finish_reason),
+			output,
+			usage: toResponsesUsage(completion.usage),
+		};
+		return new Response(JSON.stringify(obj), response);
 	}
 
-	async handleApiKeys(request: Request): Promise<Response> {
-		try {
-			const { keys } = (await request.json()) as { keys: string[] };
-			if (!Array.isArray(keys) || keys.length === 0) {
-				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组。' }), {
-					status: 400,
-					headers: { 'Content-Type': 'application/json' },
-				});
-			}
+	// Responses 请求中的 instructions、input、tools、text.format 和 reasoning 转换为 chat completions 请求
+	private transformResponsesRequest(req: any): any {
+		if (req.previous_response_id) {
+			throw new HttpError('previous_response_id is not supported, send the full conversation in input', 400);
+		}
 
-			for (const key of keys) {
-				await this.ctx.storage.sql.exec('INSERT OR IGNORE INTO api_keys (api_key) VALUES (?)', key);
+		const systemTexts: string[] = req.instructions ? [req.instructions] : [];
+		const messages: any[] = [];
+		// function_call_output 只带 call_id，Gemini 的 functionResponse 需要函数名
+		const callNames = new Map<string, string>();
+		const items = typeof req.input === 'string' ? [{ role: 'user', content: req.input }] : (req.input ?? []);
+
+		for (const item of items) {
+			switch (item.type ?? 'message') {
+				case 'message': {
+					if (item.role === 'system' || item.role === 'developer') {
+						systemTexts.push(
+							typeof item.content === 'string' ? item.content : item.content.map((part: any) => part.text ?? '').join('\n')
+						);
+						break;
+					}
+					messages.push({ role: item.role, content: this.transformResponsesContent(item.content) });
+					break;
+				}
+				case 'function_call':
+					callNames.set(item.call_id, item.name);
+					messages.push({
+						role: 'assistant',
+						content: null,
+						tool_calls: [{ id: item.call_id, type: 'function', function: { name: item.name, arguments: item.arguments || '{}' } }],
+					});
+					break;
+				case 'function_call_output':
+					messages.push({
+						role: 'tool',
+						tool_call_id: item.call_id,
+						name: callNames.get(item.call_id),
+						content: typeof item.output === 'string' ? item.output : JSON.stringify(item.output),
+					});
+					break;
+				case 'reasoning':
+					// 思考内容不回传给 Gemini
+					break;
+				default:
+					throw new HttpError(`Unsupported input item type: "${item.type}"`, 400);
 			}
+		}
+		if (systemTexts.length > 0) {
+			messages.unshift({ role: 'system', content: systemTexts.join('\n\n') });
+		}
 
-			return new Response(JSON.stringify({ message: 'API密钥添加成功。' }), {
-				status: 200,
-				headers: { 'Content-Type': 'application/json' },
-			});
-		} catch (error: any) {
-			console.error('处理API密钥失败:', error);
-			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
-				status: 500,
-				headers: { 'Content-Type': 'application/json' },
+		const chatReq: any = {
+			messages,
+			max_tokens: req.max_output_tokens,
+			temperature: req.temperature,
+			top_p: req.top_p,
+		};
+		if (req.tools) {
+			chatReq.tools = req.tools.map((tool: any) => {
+				switch (tool.type) {
+					case 'function':
+						return {
+							type: 'function',
+							function: { name: tool.name, description: tool.description, parameters: tool.parameters, strict: tool.strict },
+						};
+					// 内置的网页搜索映射为 Gemini 的 Google 搜索
+					case 'web_search':
+					case 'web_search_preview':
+						return { type: 'function', function: { name: 'googleSearch' } };
+					default:
+						throw new HttpError(`Unsupported tool type: "${tool.type}"`, 400);
+				}
 			});
 		}
+		if (req.tool_choice === 'required') {
+			// required 对应 Gemini 的 ANY 模式
+			chatReq.tool_choice = 'any';
+		} else if (typeof req.tool_choice === 'string') {
+			chatReq.tool_choice = req.tool_choice;
+		} else if (req.tool_choice?.type === 'function') {
+			chatReq.tool_choice = { type: 'function', function: { name: req.tool_choice.name } };
+		}
+		if (req.text?.format) {
+			const { type, schema } = req.text.format;
+			chatReq.response_format = type === 'json_schema' ? { type, json_schema: { schema } } : { type };
+		}
+		if (req.reasoning?.effort) {
+			chatReq.reasoning_effort = req.reasoning.effort;
+		} else if (req.reasoning?.summary) {
+			// 只要求思考摘要时使用模型默认的思考预算
+			chatReq.extra_body = { google: { thinking_config: { includeThoughts: true } } };
+		}
+		return chatReq;
 	}
 
-	async handleDeleteApiKeys(request: Request): Promise<Response> {
-		try {
-			const { keys } = (await request.json()) as { keys: string[] };
-			if (!Array.isArray(keys) || keys.length === 0) {
-				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组。' }), {
-					status: 400,
-					headers: { 'Content-Type': 'application/json' },
-				});
-			}
-
+	private transformResponsesContent(content: any) {
+		if (typeof content === 'string') {
+			return content;
+		}
+		return content.map((part: any) => {
+			switch (part.type) {
+				case 'input_text':
+				case 'output_text':
+					return { type: 'text', text: part.text };
+				case 'input_image':
+					if (!part.image_url) {
+						throw new HttpError('input_image requires image_url, file_id is not supported', 400);
+					}
+					return { type: 'image_url', image_url: { url: part.image_url } };
+				case 'refusal':
+					return { type: 'text', text: part.refusal };
+				default:
+					throw new HttpError(`Unsupported content part type: "${part.type}"`, 400);
+			}
+		});
+	}
+
+	private createResponseObject(id: string, req: any, model: string, createdAt = Math.floor(Date.now() / 1000)) {
+		return {
+			id,
+			object: 'response',
+			created_at: createdAt,
+			status: 'in_progress',
+			error: null,
+			incomplete_details: null as { reason: string } | null,
+			instructions: req.instructions ?? null,
+			max_output_tokens: req.max_output_tokens ?? null,
+			model,
+			output: [] as any[],
+			parallel_tool_calls: req.parallel_tool_calls ?? true,
+			reasoning: req.reasoning ?? null,
+			temperature: req.temperature ?? null,
+			text: req.text ?? { format: { type: 'text' } },
+			tool_choice: req.tool_choice ?? 'auto',
+			tools: req.tools ?? [],
+			top_p: req.top_p ?? null,
+			metadata: req.metadata ?? {},
+			usage: null as any,
+		};
+	}
+
+	// 把 chat completion 的流式分块转换为 Responses 的事件：文本输出为 message 项，工具调用为 function_call 项
+	private toResponsesStream(this: any, chunk: string, controller: any) {
+		const emit = (type: string, data: any) => {
+			controller.enqueue(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: this.sequence++, ...data })}\n\n`);
+		};
+		// Gemini 的思考摘要作为 reasoning 输出项，只有一段 summary_text
+		const closeReasoning = () => {
+			const item = this.reasoning;
+			if (!item) {
+				return;
+			}
+			const part = item.summary[0];
+			const location = { item_id: item.id, output_index: item.output_index, summary_index: 0 };
+			emit('response.reasoning_summary_text.done', { ...location, text: part.text });
+			emit('response.reasoning_summary_part.done', { ...location, part });
+			const { output_index, ...done } = item;
+			emit('response.output_item.done', { output_index, item: done });
+			this.reasoning = null;
+		};
+		const closeMessage = () => {
+			const item = this.message;
+			if (!item) {
+				return;
+			}
+			const part = item.content[0];
+			const location = { item_id: item.id, output_index: item.output_index, content_index: 0 };
+			emit('response.output_text.done', { ...location, text: part.text });
+			emit('response.content_part.done', { ...location, part });
+			item.status = 'completed';
+			const { output_index, ...done } = item;
+			emit('response.output_item.done', { output_index, item: done });
+			this.message = null;
+		};
+		const closeToolCalls = () => {
+			for (const item of this.toolItems.values()) {
+				emit('response.function_call_arguments.done', { item_id: item.id, output_index: item.output_index, arguments: item.arguments });
+				item.status = 'completed';
+				const { output_index, ...done } = item;
+				emit('response.output_item.done', { output_index, item: done });
+			}
+			this.toolItems.clear();
+		};
+
+		this.buffer += chunk;
+		const events = this.buffer.split('\n\n');
+		this.buffer = events.pop()!;
+		for (const event of events) {
+			const data = event.replace(/^data: /, '').trim();
+			if (!data) {
+				continue;
+			}
+			if (data === '[DONE]') {
+				closeReasoning();
+				closeMessage();
+				closeToolCalls();
+				this.done = true;
+				continue;
+			}
+			const completionChunk = JSON.parse(data);
+			if (!this.started) {
+				this.started = true;
+				emit('response.created', { response: this.response });
+				emit('response.in_progress', { response: this.response });
+			}
+			if (completionChunk.usage) {
+				this.response.usage = toResponsesUsage(completionChunk.usage);
+			}
+			const choice = completionChunk.choices?.[0];
+			if (!choice) {
+				continue;
+			}
+			if (choice.delta?.reasoning_content) {
+				if (!this.reasoning) {
+					closeMessage();
+					closeToolCalls();
+					this.reasoning = {
+						type: 'reasoning',
+						id: 'rs_' + this.generateId(),
+						summary: [{ type: 'summary_text', text: '' }],
+						output_index: this.items.length,
+					};
+					this.items.push(this.reasoning);
+					const { output_index, ...item } = this.reasoning;
+					emit('response.output_item.added', { output_index, item: { ...item, summary: [] } });
+					emit('response.reasoning_summary_part.added', {
+						item_id: item.id,
+						output_index,
+						summary_index: 0,
+						part: { type: 'summary_text', text: '' },
+					});
+				}
+				this.reasoning.summary[0].text += choice.delta.reasoning_content;
+				emit('response.reasoning_summary_text.delta', {
+					item_id: this.reasoning.id,
+					output_index: this.reasoning.output_index,
+					summary_index: 0,
+					delta: choice.delta.reasoning_content,
+				});
+			}
+			if (choice.delta?.content) {
+				if (!this.message) {
+					closeReasoning();
+					closeToolCalls();
+					this.message = {
+						type: 'message',
+						id: 'msg_' + this.generateId(),
+						status: 'in_progress',
+						role: 'assistant',
+						content: [{ type: 'output_text', text: '', annotations: [] }],
+						output_index: this.items.length,
+					};
+					this.items.push(this.message);
+					const { output_index, ...item } = this.message;
+					emit('response.output_item.added', { output_index, item: { ...item, content: [] } });
+					emit('response.content_part.added', {
+						item_id: item.id,
+						output_index,
+						content_index: 0,
+						part: { type: 'output_text', text: '', annotations: [] },
+					});
+				}
+				this.message.content[0].text += choice.delta.content;
+				emit('response.output_text.delta', {
+					item_id: this.message.id,
+					output_index: this.message.output_index,
+					content_index: 0,
+					delta: choice.delta.content,
+				});
+			}
+			for (const call of choice.delta?.tool_calls ?? []) {
+				let item = this.toolItems.get(call.index ?? 0);
+				if (!item || call.id) {
+					closeReasoning();
+					closeMessage();
+					if (item) {
+						closeToolCalls();
+					}
+					item = {
+						type: 'function_call',
+						id: 'fc_' + this.generateId(),
+						call_id: call.id,
+						name: call.function?.name ?? '',
+						arguments: '',
+						status: 'in_progress',
+						output_index: this.items.length,
+					};
+					this.items.push(item);
+					this.toolItems.set(call.index ?? 0, item);
+					const { output_index, ...added } = item;
+					emit('response.output_item.added', { output_index, item: added });
+				}
+				const delta = call.function?.arguments ?? '';
+				if (delta) {
+					item.arguments += delta;
+					emit('response.function_call_arguments.delta', { item_id: item.id, output_index: item.output_index, delta });
+				}
+			}
+			if (choice.finish_reason) {
+				Object.assign(this.response, responseStatusFromFinishReason(choice.finish_reason));
+			}
+		}
+	}
+
+	private toResponsesStreamFlush(this: any, controller: any) {
+		if (!this.done) {
+			// 上游在 [DONE] 之前中断时只结束已开始的输出项
+			this.transform('data: [DONE]\n\n', controller);
+		}
+		const response = {
+			...this.response,
+			status: this.response.status === 'in_progress' ? 'completed' : this.response.status,
+			output: this.items.map(({ output_index, ...item }: any) => item),
+		};
+		const type = response.status === 'incomplete' ? 'response.incomplete' : 'response.completed';
+		controller.enqueue(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: this.sequence++, response })}\n\n`);
+	}
+
+	// =================================================================================================
+	// OpenAI Legacy Completions
+	// =================================================================================================
+
+	/**
+	 * /v1/completions：每个 prompt 转换为一次 chat completions 请求（使用同一个 Gemini 密钥），
+	 * 第 i 个 prompt 的第 j 个结果在 choices 中的 index 为 i * n + j，与 OpenAI 一致。
+	 */
+	async handleTextCompletions(req: any, apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		const prompts = this.normalizePrompts(req.prompt);
+		const n = req.n ?? 1;
+		const responses: Response[] = [];
+		for (const prompt of prompts) {
+			const response = await this.handleCompletions(this.transformTextCompletionRequest(req, prompt, model), apiKey, model, onTokens);
+			if (!response.ok) {
+				await Promise.all(responses.map((previous) => previous.body?.cancel()));
+				return response;
+			}
+			responses.push(response);
+		}
+
+		const id = 'cmpl-' + this.generateId();
+		const created = Math.floor(Date.now() / 1000);
+		const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+		const addUsage = (chunkUsage: any) => {
+			usage.prompt_tokens += chunkUsage?.prompt_tokens ?? 0;
+			usage.completion_tokens += chunkUsage?.completion_tokens ?? 0;
+			usage.total_tokens += chunkUsage?.total_tokens ?? 0;
+		};
+
+		if (req.stream) {
+			// 多个 prompt 的流依次输出，全部结束后再发送合计的 usage 和 [DONE]
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const encoder = new TextEncoder();
+			const pump = async () => {
+				for (const [i, response] of responses.entries()) {
+					const chunks = response
+						.body!.pipeThrough(new TextDecoderStream())
+						.pipeThrough(
+							new TransformStream({
+								transform: this.toTextCompletionStream,
+								buffer: '',
+								id,
+								created,
+								model,
+								prompt: req.echo ? prompts[i] : null,
+								echoed: new Set(),
+								offset: i * n,
+								addUsage,
+							} as any)
+						);
+					for await (const chunk of chunks) {
+						await writer.write(encoder.encode(chunk));
+					}
+				}
+				if (req.stream_options?.include_usage) {
+					const obj = { id, object: 'text_completion', created, model, choices: [], usage };
+					await writer.write(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+				}
+				await writer.write(encoder.encode('data: [DONE]\n\n'));
+				await writer.close();
+			};
+			pump().catch((err) => {
+				console.error('Error streaming completions:', err);
+				writer.abort(err).catch(() => {});
+			});
+			return new Response(readable, responses[0]);
+		}
+
+		const choices: any[] = [];
+		for (const [i, response] of responses.entries()) {
+			const completion: any = await response.json();
+			for (const choice of completion.choices ?? []) {
+				choices.push({
+					text: (req.echo ? prompts[i] : '') + (choice.message?.content ?? ''),
+					index: i * n + choice.index,
+					logprobs: null,
+					finish_reason: choice.finish_reason,
+				});
+			}
+			addUsage(completion.usage);
+		}
+		return new Response(JSON.stringify({ id, object: 'text_completion', created, model, choices, usage }), responses[0]);
+	}
+
+	// prompt 可以是字符串或字符串数组；Gemini 没有对应的 tokenizer，不支持 token id 数组
+	private normalizePrompts(prompt: any): string[] {
+		if (typeof prompt === 'string') {
+			return [prompt];
+		}
+		if (Array.isArray(prompt) && prompt.length > 0 && prompt.every((item) => typeof item === 'string')) {
+			return prompt;
+		}
+		throw new HttpError('prompt must be a string or an array of strings, token arrays are not supported', 400);
+	}
+
+	// Gemini 没有补全模式：prompt 作为用户消息，由系统提示要求模型只输出续写内容，或填在 prompt 和 suffix 之间的内容
+	private transformTextCompletionRequest(req: any, prompt: string, model: string) {
+		const instruction = req.suffix
+			? `Output only the text that goes between the user's text and the following suffix, without repeating either of them.\nSuffix:\n${req.suffix}`
+			: "Continue the user's text exactly where it ends. Output only the continuation, without repeating the text.";
+		return {
+			model: req.model ?? model,
+			messages: [
+				{ role: 'system', content: instruction },
+				{ role: 'user', content: prompt },
+			],
+			max_tokens: req.max_tokens,
+			stop: typeof req.stop === 'string' ? [req.stop] : req.stop,
+			n: req.n,
+			temperature: req.temperature,
+			top_p: req.top_p,
+			presence_penalty: req.presence_penalty,
+			frequency_penalty: req.frequency_penalty,
+			seed: req.seed,
+			stream: Boolean(req.stream),
+			stream_options: req.stream ? { include_usage: true } : undefined,
+		};
+	}
+
+	private toTextCompletionStream(this: any, chunk: string, controller: any) {
+		this.buffer += chunk;
+		const events = this.buffer.split('\n\n');
+		this.buffer = events.pop()!;
+		for (const event of events) {
+			const data = event.replace(/^data: /, '').trim();
+			if (!data || data === '[DONE]') {
+				continue;
+			}
+			const completionChunk = JSON.parse(data);
+			// 带 usage 的分块只用于合计用量，其中的 choices 不是实际输出
+			if (completionChunk.usage) {
+				this.addUsage(completionChunk.usage);
+				continue;
+			}
+			for (const choice of completionChunk.choices ?? []) {
+				let text = choice.delta?.content ?? '';
+				if (this.prompt !== null && !this.echoed.has(choice.index)) {
+					this.echoed.add(choice.index);
+					text = this.prompt + text;
+				}
+				if (!text && !choice.finish_reason) {
+					continue;
+				}
+				const obj = {
+					id: this.id,
+					object: 'text_completion',
+					created: this.created,
+					model: this.model,
+					choices: [{ text, index: this.offset + choice.index, logprobs: null, finish_reason: choice.finish_reason ?? null }],
+				};
+				controller.enqueue(`data: ${JSON.stringify(obj)}\n\n`);
+			}
+		}
+	}
+
+	// =================================================================================================
+	// Anthropic Messages API
+	// =================================================================================================
+
+	/**
+	 * /v1/messages：与 Responses API 一样先转换为 chat completions 请求并复用 handleCompletions，
+	 * 再把结果转换为 Anthropic 的消息对象或带类型的事件流（message_start、content_block_delta 等）。
+	 */
+	async handleAnthropicMessages(req: any, apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		const chatReq = { ...this.transformAnthropicRequest(req), model: req.model ?? model, stream: Boolean(req.stream) };
+		if (req.stream) {
+			chatReq.stream_options = { include_usage: true };
+		}
+		const response = await this.handleCompletions(chatReq, apiKey, model, onTokens);
+		if (!response.ok) {
+			// Gemini 的错误转换为 Anthropic 的错误格式，状态码不变，密钥切换仍按状态码判断
+			const text = await response.text();
+			let message = text;
+			try {
+				message = JSON.parse(text).error?.message ?? text;
+			} catch {}
+			const retryAfter = response.headers.get('Retry-After');
+			return anthropicErrorResponse(response.status, message, retryAfter ? { 'Retry-After': retryAfter } : undefined);
+		}
+
+		const id = 'msg_' + this.generateId();
+		const stopSequences: string[] = Array.isArray(req.stop_sequences)
+			? req.stop_sequences.filter((sequence: unknown) => typeof sequence === 'string' && sequence)
+			: [];
+		if (req.stream) {
+			const body = response
+				.body!.pipeThrough(new TextDecoderStream())
+				.pipeThrough(
+					new TransformStream({
+						transform: this.toAnthropicStream,
+						flush: this.toAnthropicStreamFlush,
+						buffer: '',
+						block: null,
+						blockCount: 0,
+						hasToolUse: false,
+						finishReason: null,
+						usage: null,
+						// 只保留输出末尾与最长停止序列等长的部分，结束时判断是否以停止序列结尾
+						stopSequences,
+						tailLength: Math.max(0, ...stopSequences.map((sequence) => sequence.length)),
+						tail: '',
+						message: {
+							id,
+							type: 'message',
+							role: 'assistant',
+							model,
+							content: [],
+							stop_reason: null,
+							stop_sequence: null,
+							usage: { input_tokens: 0, output_tokens: 0 },
+						},
+					} as any)
+				)
+				.pipeThrough(new TextEncoderStream());
+			return new Response(body, response);
+		}
+
+		const completion: any = await response.json();
+		const choice = completion.choices?.[0];
+		const content: any[] = [];
+		// Gemini 的思考摘要没有签名，回传时 thinking 内容块会被忽略
+		if (choice?.message?.reasoning_content) {
+			content.push({ type: 'thinking', thinking: choice.message.reasoning_content, signature: '' });
+		}
+		// Anthropic 的输出不包含触发的停止序列
+		let text: string = choice?.message?.content ?? '';
+		const stopSequence = choice?.finish_reason === 'stop' ? findStopSequence(text, stopSequences) : null;
+		if (stopSequence) {
+			text = text.substring(0, text.length - stopSequence.length);
+		}
+		if (text) {
+			content.push({ type: 'text', text });
+		}
+		for (const call of choice?.message?.tool_calls ?? []) {
+			content.push({ type: 'tool_use', id: call.id, name: call.function.name, input: JSON.parse(call.function.arguments || '{}') });
+		}
+		const message = {
+			id,
+			type: 'message',
+			role: 'assistant',
+			model,
+			content,
+			stop_reason: toAnthropicStopReason(choice?.finish_reason, content.some((block) => block.type === 'tool_use'), stopSequence),
+			stop_sequence: stopSequence,
+			usage: toAnthropicUsage(completion.usage),
+		};
+		return new Response(JSON.stringify(message), response);
+	}
+
+	// Anthropic 请求中的 system、消息内容块、tools 和 tool_choice 转换为 chat completions 请求
+	private transformAnthropicRequest(req: any): any {
+		const messages: any[] = [];
+		const system = typeof req.system === 'string' ? req.system : req.system?.map((block: any) => block.text ?? '').join('\n');
+		if (system) {
+			messages.push({ role: 'system', content: system });
+		}
+
+		// tool_result 只带 tool_use_id，Gemini 的 functionResponse 需要函数名
+		const toolNames = new Map<string, string>();
+		for (const message of req.messages ?? []) {
+			const blocks = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content;
+			const content: any[] = [];
+			const toolCalls: any[] = [];
+			const toolResults: any[] = [];
+			for (const block of blocks) {
+				switch (block.type) {
+					case 'text':
+						content.push({ type: 'text', text: block.text });
+						break;
+					case 'image': {
+						const { source } = block;
+						const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url;
+						if (!url) {
+							throw new HttpError(`Unsupported image source type: "${source.type}"`, 400);
+						}
+						content.push({ type: 'image_url', image_url: { url } });
+						break;
+					}
+					case 'tool_use':
+						toolNames.set(block.id, block.name);
+						toolCalls.push({ id: block.id, type: 'function', function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } });
+						break;
+					case 'tool_result': {
+						const text =
+							typeof block.content === 'string'
+								? block.content
+								: (block.content ?? [])
+										.filter((part: any) => part.type === 'text')
+										.map((part: any) => part.text)
+										.join('\n');
+						toolResults.push({
+							role: 'tool',
+							tool_call_id: block.tool_use_id,
+							name: toolNames.get(block.tool_use_id),
+							content: block.is_error ? `Error: ${text}` : text,
+						});
+						break;
+					}
+					case 'thinking':
+					case 'redacted_thinking':
+						// 思考内容不回传给 Gemini
+						break;
+					default:
+						throw new HttpError(`Unsupported content block type: "${block.type}"`, 400);
+				}
+			}
+
+			// 工具结果必须紧跟在对应的工具调用之后，同一条消息中的文本放在工具结果之后
+			messages.push(...toolResults);
+			if (message.role === 'assistant') {
+				if (content.length > 0 || toolCalls.length > 0) {
+					messages.push({ role: 'assistant', content: content.length > 0 ? content : null, tool_calls: toolCalls.length > 0 ? toolCalls : undefined });
+				}
+			} else if (content.length > 0) {
+				messages.push({ role: 'user', content });
+			}
+		}
+
+		const chatReq: any = {
+			messages,
+			max_tokens: req.max_tokens,
+			stop: req.stop_sequences,
+			temperature: req.temperature,
+			top_p: req.top_p,
+			top_k: req.top_k,
+		};
+		if (req.tools) {
+			chatReq.tools = req.tools.map((tool: any) => {
+				// 服务端的网页搜索工具映射为 Gemini 的 Google 搜索，其他服务端工具不支持
+				if (tool.type?.startsWith('web_search')) {
+					return { type: 'function', function: { name: 'googleSearch' } };
+				}
+				if (tool.type && tool.type !== 'custom') {
+					throw new HttpError(`Unsupported tool type: "${tool.type}"`, 400);
+				}
+				return { type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.input_schema } };
+			});
+		}
+		switch (req.tool_choice?.type) {
+			case 'auto':
+			case 'any':
+			case 'none':
+				chatReq.tool_choice = req.tool_choice.type;
+				break;
+			case 'tool':
+				chatReq.tool_choice = { type: 'function', function: { name: req.tool_choice.name } };
+				break;
+		}
+		if (req.thinking?.type === 'enabled') {
+			chatReq.extra_body = { google: { thinking_config: { thinkingBudget: req.thinking.budget_tokens, includeThoughts: true } } };
+		} else if (req.thinking?.type === 'disabled') {
+			chatReq.reasoning_effort = 'none';
+		}
+		return chatReq;
+	}
+
+	private toAnthropicStream(this: any, chunk: string, controller: any) {
+		const emit = (type: string, data: any) => {
+			controller.enqueue(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+		};
+		// Anthropic 的内容块依次输出，开始新的内容块之前先结束当前的内容块
+		const closeBlock = () => {
+			if (this.block) {
+				emit('content_block_stop', { index: this.block.index });
+				this.block = null;
+			}
+		};
+		const openBlock = (contentBlock: any) => {
+			closeBlock();
+			this.block = { index: this.blockCount++, type: contentBlock.type };
+			emit('content_block_start', { index: this.block.index, content_block: contentBlock });
+		};
+
+		this.buffer += chunk;
+		const events = this.buffer.split('\n\n');
+		this.buffer = events.pop()!;
+		for (const event of events) {
+			const data = event.replace(/^data: /, '').trim();
+			if (!data) {
+				continue;
+			}
+			if (!this.started) {
+				this.started = true;
+				emit('message_start', { message: this.message });
+			}
+			if (data === '[DONE]') {
+				closeBlock();
+				this.done = true;
+				continue;
+			}
+			const completionChunk = JSON.parse(data);
+			// 带 usage 的分块只用于统计用量，其中的 choices 不是实际输出
+			if (completionChunk.usage) {
+				this.usage = completionChunk.usage;
+				continue;
+			}
+			const choice = completionChunk.choices?.find((item: any) => item.index === 0);
+			if (!choice) {
+				continue;
+			}
+			const thinking = choice.delta?.reasoning_content;
+			if (thinking) {
+				if (this.block?.type !== 'thinking') {
+					openBlock({ type: 'thinking', thinking: '', signature: '' });
+				}
+				emit('content_block_delta', { index: this.block.index, delta: { type: 'thinking_delta', thinking } });
+			}
+			const text = choice.delta?.content;
+			if (text) {
+				if (this.block?.type !== 'text') {
+					openBlock({ type: 'text', text: '' });
+				}
+				emit('content_block_delta', { index: this.block.index, delta: { type: 'text_delta', text } });
+				if (this.tailLength > 0) {
+					this.tail = (this.tail + text).slice(-this.tailLength);
+				}
+			}
+			for (const call of choice.delta?.tool_calls ?? []) {
+				if (call.id) {
+					openBlock({ type: 'tool_use', id: call.id, name: call.function?.name ?? '', input: {} });
+					this.hasToolUse = true;
+				}
+				const partialJson = call.function?.arguments;
+				if (partialJson && this.block?.type === 'tool_use') {
+					emit('content_block_delta', { index: this.block.index, delta: { type: 'input_json_delta', partial_json: partialJson } });
+				}
+			}
+			if (choice.finish_reason) {
+				this.finishReason = choice.finish_reason;
+			}
+		}
+	}
+
+	private toAnthropicStreamFlush(this: any, controller: any) {
+		if (!this.done) {
+			// 上游在 [DONE] 之前中断时只结束已开始的内容块
+			this.transform('data: [DONE]\n\n', controller);
+		}
+		// 流式输出中停止序列已经发送给客户端，只能在结束时标记
+		const stopSequence = this.finishReason === 'stop' ? findStopSequence(this.tail, this.stopSequences) : null;
+		const delta = { stop_reason: toAnthropicStopReason(this.finishReason, this.hasToolUse, stopSequence), stop_sequence: stopSequence };
+		controller.enqueue(`event: message_delta\ndata: ${JSON.stringify({ type: 'message_delta', delta, usage: toAnthropicUsage(this.usage) })}\n\n`);
+		controller.enqueue(`event: message_stop\ndata: ${JSON.stringify({ type: 'message_stop' })}\n\n`);
+	}
+
+	// =================================================================================================
+	// OpenAI Images API
+	// =================================================================================================
+
+	private resolveImageModel(model: unknown): string {
+		if (typeof model !== 'string') {
+			return DEFAULT_IMAGE_MODEL;
+		}
+		const name = model.replace(/^models\//, '');
+		return name.startsWith('imagen-') || name.startsWith('gemini-') ? name : DEFAULT_IMAGE_MODEL;
+	}
+
+	// /v1/images/edits 使用 multipart/form-data，图片在选择密钥之前读取，切换密钥重试时不需要重新读取请求体
+	private async parseImageEditForm(form: FormData) {
+		if (form.get('mask')) {
+			throw new HttpError('mask is not supported, describe the area to edit in the prompt instead', 400);
+		}
+		const files = [...form.getAll('image'), ...form.getAll('image[]')].filter((value): value is File => typeof value !== 'string');
+		if (files.length === 0) {
+			throw new HttpError('image is required', 400);
+		}
+		const images = await Promise.all(
+			files.map(async (file) => ({ mimeType: file.type || 'image/png', data: toBase64(new Uint8Array(await file.arrayBuffer())) }))
+		);
+		const n = form.get('n');
+		return {
+			model: form.get('model'),
+			prompt: form.get('prompt'),
+			n: n === null ? undefined : Number(n),
+			size: form.get('size') ?? undefined,
+			response_format: form.get('response_format'),
+			images,
+		};
+	}
+
+	/**
+	 * /v1/images/generations 和 /v1/images/edits：Imagen 模型调用 predict，一次请求生成 n 张图片；
+	 * Gemini 图片模型调用 generateContent，每次只返回一张图片，n 张图片并发请求 n 次（使用同一个密钥）。
+	 */
+	async handleImages(req: any, apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		if (typeof req.prompt !== 'string' || !req.prompt) {
+			throw new HttpError('prompt is required', 400);
+		}
+		const n = req.n ?? 1;
+		if (!Number.isInteger(n) || n < 1 || n > 10) {
+			throw new HttpError('n must be an integer between 1 and 10', 400);
+		}
+		const aspectRatio = toAspectRatio(req.size);
+		const inputImages: { mimeType: string; data: string }[] = req.images ?? [];
+
+		const images: { mimeType: string; data: string }[] = [];
+		if (model.startsWith('imagen-')) {
+			if (inputImages.length > 0) {
+				throw new HttpError('Imagen models do not support image edits, use a Gemini image model instead', 400);
+			}
+			const response = await fetchUpstream(`${BASE_URL}/${API_VERSION}/models/${model}:predict`, {
+				method: 'POST',
+				headers: makeHeaders(apiKey, { 'Content-Type': 'application/json' }),
+				body: JSON.stringify({ instances: [{ prompt: req.prompt }], parameters: { sampleCount: n, aspectRatio } }),
+			});
+			if (!response.ok) {
+				return new Response(response.body, fixCors(response));
+			}
+			const { predictions = [] }: any = await response.json();
+			for (const prediction of predictions) {
+				if (prediction.bytesBase64Encoded) {
+					images.push({ mimeType: prediction.mimeType ?? 'image/png', data: prediction.bytesBase64Encoded });
+				}
+			}
+		} else {
+			const body = JSON.stringify({
+				contents: [{ role: 'user', parts: [{ text: req.prompt }, ...inputImages.map((inlineData) => ({ inlineData }))] }],
+				generationConfig: { responseModalities: ['TEXT', 'IMAGE'], imageConfig: aspectRatio ? { aspectRatio } : undefined },
+			});
+			const responses = await Promise.all(
+				Array.from({ length: n }, () =>
+					fetchUpstream(`${BASE_URL}/${API_VERSION}/models/${model}:generateContent`, {
+						method: 'POST',
+						headers: makeHeaders(apiKey, { 'Content-Type': 'application/json' }),
+						body,
+					})
+				)
+			);
+			const failed = responses.find((response) => !response.ok);
+			if (failed) {
+				await Promise.all(responses.filter((response) => response !== failed).map((response) => response.body?.cancel()));
+				return new Response(failed.body, fixCors(failed));
+			}
+			for (const response of responses) {
+				const data: any = await response.json();
+				if (data.usageMetadata?.totalTokenCount) {
+					onTokens?.(data.usageMetadata.totalTokenCount);
+				}
+				for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+					if (part.inlineData) {
+						images.push({ mimeType: part.inlineData.mimeType ?? 'image/png', data: part.inlineData.data });
+					}
+				}
+			}
+		}
+
+		if (images.length === 0) {
+			throw new HttpError('The model did not return any image, the prompt may have been blocked by safety filters', 400);
+		}
+		// 不保存生成的图片，response_format 为 url 时返回 data URL
+		const data = images.map(({ mimeType, data }) => (req.response_format === 'url' ? { url: `data:${mimeType};base64,${data}` } : { b64_json: data }));
+		return new Response(JSON.stringify({ created: Math.floor(Date.now() / 1000), data }), {
+			headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+		});
+	}
+
+	// =================================================================================================
+	// OpenAI Audio API
+	// =================================================================================================
+
+	private resolveSpeechModel(model: unknown): string {
+		if (typeof model !== 'string') {
+			return DEFAULT_SPEECH_MODEL;
+		}
+		const name = model.replace(/^models\//, '');
+		return name.startsWith('gemini-') ? name : DEFAULT_SPEECH_MODEL;
+	}
+
+	// 与图片编辑一样在选择密钥之前读取上传的音频
+	private async parseAudioForm(form: FormData) {
+		const file = form.get('file');
+		if (!file || typeof file === 'string') {
+			throw new HttpError('file is required', 400);
+		}
+		const format = AUDIO_FORMATS[file.name.split('.').pop()!.toLowerCase()] ?? AUDIO_FORMATS[file.type.replace(/^audio\//, '')];
+		if (!format) {
+			throw new HttpError(`Unsupported audio file "${file.name}", supported formats: ${Object.keys(AUDIO_FORMATS).join(', ')}`, 400);
+		}
+		const temperature = form.get('temperature');
+		return {
+			model: form.get('model'),
+			prompt: form.get('prompt'),
+			language: form.get('language'),
+			response_format: form.get('response_format') ?? 'json',
+			temperature: temperature === null ? undefined : Number(temperature),
+			audio: { format, data: toBase64(new Uint8Array(await file.arrayBuffer())) },
+		};
+	}
+
+	/**
+	 * /v1/audio/transcriptions 和 /v1/audio/translations：音频作为 input_audio 通过 chat completions 发送，
+	 * 用结构化输出取回文本；srt、vtt 和 verbose_json 还需要模型给出分段的起止时间。
+	 */
+	async handleTranscriptions(req: any, task: 'transcribe' | 'translate', apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		if (!TRANSCRIPTION_FORMATS.includes(req.response_format)) {
+			throw new HttpError(`response_format must be one of ${TRANSCRIPTION_FORMATS.join(', ')}`, 400);
+		}
+		const withSegments = ['srt', 'vtt', 'verbose_json'].includes(req.response_format);
+		const instructions = [
+			task === 'translate' ? 'Translate the speech in the audio into English.' : 'Transcribe the speech in the audio verbatim, in the language it is spoken.',
+			task === 'transcribe' && req.language ? `The audio is in language "${req.language}" (ISO-639-1).` : '',
+			req.prompt ? `Use the following text as a reference for spelling and style: ${req.prompt}` : '',
+			'Report the ISO-639-1 code of the spoken language.',
+			withSegments ? 'Also split the result into segments of one or two sentences with start and end times in seconds from the beginning of the audio.' : '',
+		].filter(Boolean);
+		const schema: any = {
+			type: 'object',
+			properties: { language: { type: 'string' }, text: { type: 'string' } },
+			required: ['language', 'text'],
+		};
+		if (withSegments) {
+			schema.properties.segments = {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: { start: { type: 'number' }, end: { type: 'number' }, text: { type: 'string' } },
+					required: ['start', 'end', 'text'],
+				},
+			};
+			schema.required.push('segments');
+		}
+		const chatReq = {
+			model: req.model ?? model,
+			messages: [
+				{
+					role: 'user',
+					content: [
+						{ type: 'text', text: instructions.join('\n') },
+						{ type: 'input_audio', input_audio: req.audio },
+					],
+				},
+			],
+			temperature: req.temperature,
+			response_format: { type: 'json_schema', json_schema: { schema } },
+		};
+		const response = await this.handleCompletions(chatReq, apiKey, model, onTokens);
+		if (!response.ok) {
+			return response;
+		}
+
+		const completion: any = await response.json();
+		let result: { language: string; text: string; segments?: { start: number; end: number; text: string }[] };
+		try {
+			result = JSON.parse(completion.choices?.[0]?.message?.content);
+		} catch {
+			throw new HttpError('Failed to parse the transcription returned by the model', 502);
+		}
+		const segments = (result.segments ?? []).map((segment, id) => ({ id, start: segment.start, end: segment.end, text: segment.text.trim() }));
+		const textResponse = (body: string) =>
+			new Response(body, { headers: fixCors({ headers: { 'Content-Type': 'text/plain; charset=utf-8' } }).headers });
+		const jsonResponse = (body: any) =>
+			new Response(JSON.stringify(body), { headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers });
+
+		switch (req.response_format) {
+			case 'text':
+				return textResponse(result.text);
+			case 'srt':
+				return textResponse(
+					segments
+						.map((segment, i) => `${i + 1}\n${formatSubtitleTime(segment.start, ',')} --> ${formatSubtitleTime(segment.end, ',')}\n${segment.text}\n`)
+						.join('\n')
+				);
+			case 'vtt':
+				return textResponse(
+					'WEBVTT\n\n' +
+						segments.map((segment) => `${formatSubtitleTime(segment.start, '.')} --> ${formatSubtitleTime(segment.end, '.')}\n${segment.text}\n`).join('\n')
+				);
+			case 'verbose_json':
+				return jsonResponse({
+					task,
+					language: result.language,
+					duration: segments[segments.length - 1]?.end ?? 0,
+					text: result.text,
+					segments,
+				});
+			default:
+				return jsonResponse({ text: result.text });
+		}
+	}
+
+	/**
+	 * /v1/audio/speech：调用 Gemini TTS 模型。Gemini 只返回 PCM 音频，Worker 中无法编码为 mp3 等格式，
+	 * 因此 response_format 只支持 wav（默认）和 pcm（24kHz 16 位单声道，与 OpenAI 的 pcm 格式相同）。
+	 */
+	async handleSpeech(req: any, apiKey: string, model: string, onTokens?: (tokens: number) => void) {
+		if (typeof req.input !== 'string' || !req.input) {
+			throw new HttpError('input is required', 400);
+		}
+		// Gemini 只返回 PCM 音频，Worker 中也无法编码为压缩格式，Content-Type 如实标明返回的是 wav
+		const format = req.response_format ?? 'mp3';
+		if (!SPEECH_RESPONSE_FORMATS.includes(format)) {
+			throw new HttpError(`response_format "${format}" is not supported, use one of ${SPEECH_RESPONSE_FORMATS.join(', ')}`, 400);
+		}
+		const speed = req.speed ?? 1;
+		if (typeof speed !== 'number' || speed < 0.25 || speed > 4) {
+			throw new HttpError('speed must be a number between 0.25 and 4.0', 400);
+		}
+		const voiceName = OPENAI_VOICES[req.voice] ?? req.voice;
+		// 朗读风格和语速都通过自然语言控制，例如 "Say cheerfully: ..."
+		const style = [req.instructions, speed !== 1 ? `speak at ${speed} times the normal speed` : null].filter(Boolean).join(', ');
+		const text = style ? `${style}: ${req.input}` : req.input;
+
+		const response = await fetchUpstream(`${BASE_URL}/${API_VERSION}/models/${model}:generateContent`, {
+			method: 'POST',
+			headers: makeHeaders(apiKey, { 'Content-Type': 'application/json' }),
+			body: JSON.stringify({
+				contents: [{ role: 'user', parts: [{ text }] }],
+				generationConfig: {
+					responseModalities: ['AUDIO'],
+					speechConfig: voiceName ? { voiceConfig: { prebuiltVoiceConfig: { voiceName } } } : undefined,
+				},
+			}),
+		});
+		if (!response.ok) {
+			return new Response(response.body, fixCors(response));
+		}
+
+		const data: any = await response.json();
+		if (data.usageMetadata?.totalTokenCount) {
+			onTokens?.(data.usageMetadata.totalTokenCount);
+		}
+		const audio = data.candidates?.[0]?.content?.parts?.find((part: any) => part.inlineData)?.inlineData;
+		if (!audio) {
+			throw new HttpError('The model did not return any audio', 400);
+		}
+		const pcm = fromBase64(audio.data);
+		const sampleRate = Number(audio.mimeType?.match(/rate=(\d+)/)?.[1] ?? 24000);
+		return new Response(format === 'pcm' ? pcm : pcmToWav(pcm, sampleRate), {
+			headers: fixCors({ headers: { 'Content-Type': format === 'pcm' ? 'audio/pcm' : 'audio/wav' } }).headers,
+		});
+	}
+
+	// =================================================================================================
+	// Admin API Handlers
+	// =================================================================================================
+
+	async handleDeleteAllKeys(request: Request): Promise<Response> {
+		try {
+			const fingerprints = Array.from(await this.ctx.storage.sql.exec('SELECT fingerprint FROM api_keys').raw()).map((row) => String(row[0]));
+			await this.ctx.storage.sql.exec('DELETE FROM api_keys');
+			this.invalidateKeyCache();
+			this.recordAudit(request, 'delete_all_keys', fingerprints);
+			return new Response(JSON.stringify({ message: '所有API密钥已成功删除。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除所有API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	/**
+	 * 导入密钥：校验格式、去重（包括本次提交内部和已存储的密钥），可选地逐个向 Gemini 探测有效性。
+	 * dry_run 为 true 时只返回预览结果，不写入数据库。
+	 */
+	async handleApiKeys(request: Request): Promise<Response> {
+		try {
+			// 密钥只能加密后写入，未配置时直接返回配置错误，而不是在写入时才失败
+			if (!this.env.KEY_ENCRYPTION_SECRET) {
+				return new Response(JSON.stringify({ error: '未配置 KEY_ENCRYPTION_SECRET，无法添加API密钥。请先通过 wrangler secret put 配置后重试。' }), {
+					status: 503,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+			const { keys, pool, probe, dry_run } = (await request.json()) as {
+				keys: string[];
+				pool?: string;
+				probe?: boolean;
+				dry_run?: boolean;
+			};
+			if (!Array.isArray(keys) || keys.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const existing = new Set(
+				Array.from(await this.ctx.storage.sql.exec('SELECT fingerprint FROM api_keys').raw()).map((row) => String(row[0]))
+			);
+			// 明文只保留在内存中用于探测和加密，返回结果中只包含指纹和脱敏后的密钥
+			const plaintexts = new Map<string, string>();
+			const results: KeyImportResult[] = [];
+			for (const raw of keys) {
+				// 去掉首尾空白、引号和逗号，以及粘贴时常混入的零宽字符
+				const key = String(raw ?? '')
+					.replace(/[\u200B-\u200D\uFEFF]/g, '')
+					.trim()
+					.replace(/^["',]+|["',]+$/g, '');
+				if (!key) {
+					continue;
+				}
+				const fingerprint = await keyFingerprint(key);
+				const result = { fingerprint, masked_key: maskApiKey(key) };
+				if (!API_KEY_PATTERN.test(key)) {
+					results.push({ ...result, status: 'invalid', reason: 'invalid_format' });
+				} else if (existing.has(fingerprint)) {
+					results.push({ ...result, status: 'duplicate', reason: 'already_exists' });
+				} else if (plaintexts.has(fingerprint)) {
+					results.push({ ...result, status: 'duplicate', reason: 'duplicate_in_request' });
+				} else {
+					results.push({ ...result, status: dry_run ? 'would_add' : 'added', reason: null });
+					plaintexts.set(fingerprint, key);
+				}
+			}
+
+			if (probe) {
+				const { concurrency } = await this.getHealthCheckConfig();
+				const pending = results.filter((result) => result.status === 'added' || result.status === 'would_add');
+				const checks = await mapWithConcurrency(pending, concurrency, (result) =>
+					this.checkKey(plaintexts.get(result.fingerprint)!, result.fingerprint)
+				);
+				pending.forEach((result, i) => {
+					// 只拒绝确定失效的密钥，配额耗尽或网络问题不影响导入，但记录在 reason 中
+					if (DISABLING_CHECK_CATEGORIES.includes(checks[i].category)) {
+						result.status = 'invalid';
+					}
+					result.reason = checks[i].category === 'ok' ? null : checks[i].category;
+				});
+			}
+
+			const toAdd = results.filter((result) => result.status === 'added');
+			for (const { fingerprint, masked_key } of toAdd) {
+				await this.ctx.storage.sql.exec(
+					'INSERT OR IGNORE INTO api_keys (api_key, fingerprint, masked_key, pool) VALUES (?, ?, ?, ?)',
+					await this.encryptApiKey(plaintexts.get(fingerprint)!),
+					fingerprint,
+					masked_key,
+					pool?.trim() || DEFAULT_KEY_POOL
+				);
+			}
+			if (toAdd.length > 0) {
+				this.invalidateKeyCache();
+				this.recordAudit(
+					request,
+					'import_keys',
+					toAdd.map((result) => result.fingerprint),
+					JSON.stringify({ pool: pool?.trim() || DEFAULT_KEY_POOL, probe: Boolean(probe) })
+				);
+			}
+
+			const summary = {
+				added: toAdd.length,
+				would_add: results.filter((result) => result.status === 'would_add').length,
+				duplicates: results.filter((result) => result.status === 'duplicate').length,
+				invalid: results.filter((result) => result.status === 'invalid').length,
+			};
+			const message = dry_run
+				? `预览：将添加 ${summary.would_add} 个，重复 ${summary.duplicates} 个，无效 ${summary.invalid} 个。`
+				: `API密钥添加成功：新增 ${summary.added} 个，重复 ${summary.duplicates} 个，无效 ${summary.invalid} 个。`;
+
+			return new Response(JSON.stringify({ message, dry_run: Boolean(dry_run), summary, results }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('处理API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleDeleteApiKeys(request: Request): Promise<Response> {
+		try {
+			const { keys } = (await request.json()) as { keys: string[] };
+			if (!Array.isArray(keys) || keys.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const fingerprints = await this.resolveKeyFingerprints(keys);
+			const batchSize = 500;
+			for (let i = 0; i < fingerprints.length; i += batchSize) {
+				const batch = fingerprints.slice(i, i + batchSize);
+				const placeholders = batch.map(() => '?').join(',');
+				await this.ctx.storage.sql.exec(`DELETE FROM api_keys WHERE fingerprint IN (${placeholders})`, ...batch);
+			}
+			this.invalidateKeyCache();
+			this.recordAudit(request, 'delete_keys', fingerprints);
+
+			return new Response(JSON.stringify({ message: 'API密钥删除成功。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	private async checkKey(key: string, fingerprint: string): Promise<KeyCheckResult> {
+		try {
+			const response = await fetch(`${BASE_URL}/${API_VERSION}/models`, { headers: { 'x-goog-api-key': key } });
+			if (response.ok) {
+				return { fingerprint, valid: true, category: 'ok', status_code: response.status, error: null };
+			}
+			const error = await response.text();
+			return { fingerprint, valid: false, category: classifyKeyCheckFailure(response.status, error), status_code: response.status, error };
+		} catch (e: any) {
+			return { fingerprint, valid: false, category: 'network_error', status_code: null, error: e.message };
+		}
+	}
+
+	/**
+	 * 检查所有密钥，记录检查历史，并根据结果处理密钥：
+	 * 只禁用确定失效的密钥，网络错误、地区限制等临时问题不做处理，配额耗尽的密钥进入冷却。
+	 * 定时检查跳过已禁用的密钥；手动检查仍会探测它们，但不会重复禁用，以保留最初的禁用时间和原因。
+	 */
+	private async runKeyChecks(source: 'manual' | 'scheduled', concurrency: number, request: Request | null = null): Promise<KeyCheckResult[]> {
+		const filter = source === 'scheduled' ? " WHERE status != 'disabled'" : '';
+		const results = await this.ctx.storage.sql.exec(`SELECT api_key, fingerprint, status FROM api_keys${filter}`).raw<any>();
+		const keys = Array.from(results).map(([api_key, fingerprint, status]) => ({
+			api_key: String(api_key),
+			fingerprint: String(fingerprint),
+			status: String(status),
+		}));
+		const disabled = new Set(keys.filter((key) => key.status === 'disabled').map((key) => key.fingerprint));
+		console.log(`checking ${keys.length} keys`);
+
+		const checkResults = await mapWithConcurrency(keys, concurrency, async ({ api_key, fingerprint }) => {
+			console.log('checking key: ', fingerprint);
+			return this.checkKey(await this.decryptApiKey(api_key), fingerprint);
+		});
+
+		for (const category of DISABLING_CHECK_CATEGORIES) {
+			const invalidKeys = checkResults
+				.filter((result) => result.category === category && !disabled.has(result.fingerprint))
+				.map((result) => result.fingerprint);
+			if (invalidKeys.length > 0) {
+				console.log(`InvalidKeys (${category}): `, JSON.stringify(invalidKeys));
+				await this.disableKeys(invalidKeys, category);
+				this.recordAudit(request, 'check_disable_keys', invalidKeys, category);
+				console.log(`禁用了 ${invalidKeys.length} 个无效的API密钥（${category}）。`);
+			}
+		}
+		for (const result of checkResults.filter((result) => result.category === 'quota_exhausted')) {
+			await this.markKeyCooldown(result.fingerprint, `${result.status_code} ${result.error}`.substring(0, 500));
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		for (const result of checkResults) {
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO api_key_health_checks (fingerprint, checked_at, category, status_code, error, source) VALUES (?, ?, ?, ?, ?, ?)',
+				result.fingerprint,
+				now,
+				result.category,
+				result.status_code,
+				result.error?.substring(0, 500) ?? null,
+				source
+			);
+		}
+		await this.ctx.storage.sql.exec('DELETE FROM api_key_health_checks WHERE checked_at < ?', now - HEALTH_CHECK_HISTORY_SECONDS);
+
+		return checkResults;
+	}
+
+	async handleApiKeysCheck(request: Request): Promise<Response> {
+		try {
+			const { concurrency } = await this.getHealthCheckConfig();
+			const checkResults = await this.runKeyChecks('manual', concurrency, request);
+
+			return new Response(JSON.stringify(checkResults), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('检查API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// =================================================================================================
+	// Scheduled Health Checks
+	// =================================================================================================
+
+	private async getHealthCheckConfig(): Promise<HealthCheckConfig> {
+		return { ...DEFAULT_HEALTH_CHECK_CONFIG, ...(await this.ctx.storage.get<HealthCheckConfig>('health_check_config')) };
+	}
+
+	// 根据配置设置或取消下一次定时检查
+	private async scheduleHealthCheck(config: HealthCheckConfig) {
+		if (config.enabled) {
+			await this.ctx.storage.setAlarm(Date.now() + config.interval_minutes * 60 * 1000);
+		} else {
+			await this.ctx.storage.deleteAlarm();
+		}
+	}
+
+	async alarm(): Promise<void> {
+		const config = await this.getHealthCheckConfig();
+		if (!config.enabled) {
+			return;
+		}
+		try {
+			const startedAt = Math.floor(Date.now() / 1000);
+			const results = await this.runKeyChecks('scheduled', config.concurrency);
+			const byCategory: Record<string, number> = {};
+			for (const result of results) {
+				byCategory[result.category] = (byCategory[result.category] ?? 0) + 1;
+			}
+			await this.ctx.storage.put('health_check_last_run', {
+				started_at: startedAt,
+				finished_at: Math.floor(Date.now() / 1000),
+				total: results.length,
+				valid: byCategory.ok ?? 0,
+				disabled: DISABLING_CHECK_CATEGORIES.reduce((sum, category) => sum + (byCategory[category] ?? 0), 0),
+				cooled_down: byCategory.quota_exhausted ?? 0,
+				by_category: byCategory,
+			});
+			console.log(`定时健康检查完成，共 ${results.length} 个密钥:`, JSON.stringify(byCategory));
+		} catch (error) {
+			console.error('定时健康检查失败:', error);
+		} finally {
+			await this.scheduleHealthCheck(config);
+		}
+	}
+
+	async handleGetHealthCheck(): Promise<Response> {
+		try {
+			return new Response(
+				JSON.stringify({
+					config: await this.getHealthCheckConfig(),
+					next_run_at: await this.ctx.storage.getAlarm(),
+					last_run: (await this.ctx.storage.get('health_check_last_run')) ?? null,
+				}),
+				{
+					headers: { 'Content-Type': 'application/json' },
+				}
+			);
+		} catch (error: any) {
+			console.error('获取健康检查配置失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetHealthCheck(request: Request): Promise<Response> {
+		try {
+			const body = (await request.json()) as Partial<HealthCheckConfig>;
+			const config = { ...(await this.getHealthCheckConfig()), ...body };
+			if (
+				typeof config.enabled !== 'boolean' ||
+				!Number.isInteger(config.interval_minutes) ||
+				config.interval_minutes < 1 ||
+				!Number.isInteger(config.concurrency) ||
+				config.concurrency < 1 ||
+				config.concurrency > 50
+			) {
+				return new Response(
+					JSON.stringify({ error: '请求体无效，enabled 为布尔值，interval_minutes 为正整数，concurrency 为 1-50 的整数。' }),
+					{
+						status: 400,
+						headers: { 'Content-Type': 'application/json' },
+					}
+				);
+			}
+
+			const saved: HealthCheckConfig = {
+				enabled: config.enabled,
+				interval_minutes: config.interval_minutes,
+				concurrency: config.concurrency,
+			};
+			await this.ctx.storage.put('health_check_config', saved);
+			await this.scheduleHealthCheck(saved);
+			this.recordAudit(request, 'set_health_check', [], JSON.stringify(saved));
+
+			return new Response(JSON.stringify({ message: '健康检查计划已更新。', config: saved, next_run_at: await this.ctx.storage.getAlarm() }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('更新健康检查配置失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetHealthCheckHistory(url: URL): Promise<Response> {
+		try {
+			const key = url.searchParams.get('key');
+			const limit = Math.min(1000, Math.max(1, parseIntOr(url.searchParams.get('limit'), 100)));
+			const rows = key
+				? await this.ctx.storage.sql
+						.exec(
+							'SELECT fingerprint, checked_at, category, status_code, error, source FROM api_key_health_checks WHERE fingerprint = ? ORDER BY id DESC LIMIT ?',
+							(await this.resolveKeyFingerprints([key]))[0],
+							limit
+						)
+						.raw()
+				: await this.ctx.storage.sql
+						.exec('SELECT fingerprint, checked_at, category, status_code, error, source FROM api_key_health_checks ORDER BY id DESC LIMIT ?', limit)
+						.raw();
+			const history = Array.from(rows).map(([fingerprint, checked_at, category, status_code, error, source]) => ({
+				fingerprint,
+				checked_at,
+				category,
+				status_code,
+				error,
+				source,
+			}));
+
+			return new Response(JSON.stringify({ history }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取健康检查历史失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetKeysEnabled(request: Request, enabled: boolean): Promise<Response> {
+		try {
+			const { keys, reason } = (await request.json()) as { keys: string[]; reason?: string };
+			if (!Array.isArray(keys) || keys.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const fingerprints = await this.resolveKeyFingerprints(keys);
+			if (enabled) {
+				const batchSize = 500;
+				for (let i = 0; i < fingerprints.length; i += batchSize) {
+					const batch = fingerprints.slice(i, i + batchSize);
+					const placeholders = batch.map(() => '?').join(',');
+					await this.ctx.storage.sql.exec(
+						`UPDATE api_keys SET status = 'active', cooldown_until = 0, consecutive_failures = 0, disabled_reason = NULL, disabled_at = NULL WHERE fingerprint IN (${placeholders})`,
+						...batch
+					);
+				}
+				this.invalidateKeyCache();
+				this.recordAudit(request, 'enable_keys', fingerprints);
+			} else {
+				await this.disableKeys(fingerprints, reason?.trim() || 'manual');
+				this.recordAudit(request, 'disable_keys', fingerprints, reason?.trim() || 'manual');
+			}
+
+			return new Response(JSON.stringify({ message: enabled ? 'API密钥已启用。' : 'API密钥已禁用。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error(enabled ? '启用API密钥失败:' : '禁用API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handlePurgeDisabledKeys(request: Request): Promise<Response> {
+		try {
+			const fingerprints = Array.from(await this.ctx.storage.sql.exec("SELECT fingerprint FROM api_keys WHERE status = 'disabled'").raw()).map((row) =>
+				String(row[0])
+			);
+			const purged = fingerprints.length;
+			await this.ctx.storage.sql.exec("DELETE FROM api_keys WHERE status = 'disabled'");
+			this.invalidateKeyCache();
+			this.recordAudit(request, 'purge_disabled_keys', fingerprints);
+			console.log(`清除了 ${purged} 个已禁用的API密钥。`);
+			return new Response(JSON.stringify({ message: `已清除 ${purged} 个已禁用的API密钥。`, purged }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('清除已禁用的API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 查看完整密钥，每次调用都会写入审计日志
+	async handleRevealApiKey(request: Request): Promise<Response> {
+		try {
+			const { key, reason } = (await request.json()) as { key: string; reason?: string };
+			if (typeof key !== 'string' || !key.trim()) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要密钥指纹 key。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const [fingerprint] = await this.resolveKeyFingerprints([key]);
+			const row = Array.from(await this.ctx.storage.sql.exec('SELECT api_key FROM api_keys WHERE fingerprint = ?', fingerprint).raw())[0];
+			if (!row) {
+				return new Response(JSON.stringify({ error: '密钥不存在。' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const apiKey = await this.decryptApiKey(String(row[0]));
+			this.recordAudit(request, 'reveal_key', [fingerprint], reason?.trim() || undefined);
+			console.warn(`API key ${fingerprint} revealed by admin`);
+			return new Response(JSON.stringify({ fingerprint, api_key: apiKey }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+			});
+		} catch (error: any) {
+			console.error('查看API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async getAllApiKeys(): Promise<Response> {
+		try {
+			this.flushUsage();
+			const results = await this.ctx.storage.sql
+				.exec(
+					'SELECT fingerprint, masked_key, total_calls, status, cooldown_until, consecutive_failures, last_error, last_error_at, weight, last_used_at, pool, disabled_reason, disabled_at FROM api_keys'
+				)
+				.raw();
+			const rawKeys = Array.from(results);
+			console.log('getAllApiKeys keys: ', rawKeys.length);
+
+			// 将原始数组转换为对象数组
+			const keys = rawKeys.map(
+				([
+					fingerprint,
+					masked_key,
+					total_calls,
+					status,
+					cooldown_until,
+					consecutive_failures,
+					last_error,
+					last_error_at,
+					weight,
+					last_used_at,
+					pool,
+					disabled_reason,
+					disabled_at,
+				]) => ({
+					fingerprint,
+					masked_key,
+					total_calls: total_calls || 0,
+					status: status || 'active',
+					cooldown_until: cooldown_until || 0,
+					consecutive_failures: consecutive_failures || 0,
+					last_error,
+					last_error_at,
+					weight: weight ?? 1,
+					last_used_at: last_used_at || 0,
+					pool: pool || DEFAULT_KEY_POOL,
+					disabled_reason,
+					disabled_at,
+				})
+			);
+
+			return new Response(JSON.stringify({ keys }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取API密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleApiKeysStats(): Promise<Response> {
+		try {
+			this.flushUsage();
+			const now = Math.floor(Date.now() / 1000);
+			const oneMinuteAgo = now - 60;
+			const twentyFourHoursAgo = now - 24 * 60 * 60;
+
+			// Clean up old logs first，多保留一小时以覆盖夏令时切换日的配额统计
+			await this.ctx.storage.sql.exec('DELETE FROM api_key_usage_logs WHERE timestamp < ?', twentyFourHoursAgo - 3600); // A little buffer
+
+			const keysResult = await this.ctx.storage.sql
+				.exec(
+					'SELECT fingerprint, masked_key, total_calls, status, cooldown_until, consecutive_failures, last_error, last_error_at, pool, disabled_reason, disabled_at FROM api_keys'
+				)
+				.raw<any>();
+			const keys = Array.from(keysResult);
+
+			const stats = await Promise.all(
+				keys.map(async (key) => {
+					const [fingerprint, masked_key, total_calls, status, cooldown_until, consecutive_failures, last_error, last_error_at, pool, disabled_reason, disabled_at] =
+						key as [string, string, number, string, number, number, string | null, number | null, string | null, string | null, number | null];
+
+					const oneMinuteCountResult = await this.ctx.storage.sql
+						.exec('SELECT COUNT(*) as count FROM api_key_usage_logs WHERE fingerprint = ? AND timestamp >= ?', fingerprint, oneMinuteAgo)
+						.raw<any>();
+					const oneMinuteCount = (Array.from(oneMinuteCountResult)[0]?.[0] as number) ?? 0
+
+					const twentyFourHourCountResult = await this.ctx.storage.sql
+						.exec(
+							'SELECT COUNT(*) as count FROM api_key_usage_logs WHERE fingerprint = ? AND timestamp >= ?',
+							fingerprint,
+							twentyFourHoursAgo
+						)
+						.raw<any>();
+					const twentyFourHourCount = (Array.from(twentyFourHourCountResult)[0]?.[0] as number) ?? 0;
+
+					return {
+						fingerprint,
+						masked_key,
+						total_calls,
+						one_minute_calls: oneMinuteCount,
+						twenty_four_hour_calls: twentyFourHourCount,
+						status: status || 'active',
+						cooldown_until: cooldown_until || 0,
+						consecutive_failures: consecutive_failures || 0,
+						last_error,
+						last_error_at,
+						pool: pool || DEFAULT_KEY_POOL,
+						disabled_reason,
+						disabled_at,
+					};
+				})
+			);
+
+			return new Response(JSON.stringify(stats), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取API密钥统计失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetStrategy(): Promise<Response> {
+		return new Response(JSON.stringify({ strategy: await this.getKeySelectionStrategy(), strategies: KEY_SELECTION_STRATEGIES }), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
+	async handleSetStrategy(request: Request): Promise<Response> {
+		try {
+			const { strategy } = (await request.json()) as { strategy: KeySelectionStrategy };
+			if (!KEY_SELECTION_STRATEGIES.includes(strategy)) {
+				return new Response(JSON.stringify({ error: `不支持的策略，可选值: ${KEY_SELECTION_STRATEGIES.join(', ')}` }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+			await this.ctx.storage.put('key_selection_strategy', strategy);
+			this.strategy = strategy;
+			this.recordAudit(request, 'set_strategy', [], strategy);
+			return new Response(JSON.stringify({ message: '密钥选择策略已更新。', strategy }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('更新密钥选择策略失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetKeyWeight(request: Request): Promise<Response> {
+		try {
+			const { keys, weight } = (await request.json()) as { keys: string[]; weight: number };
+			if (!Array.isArray(keys) || keys.length === 0 || !Number.isInteger(weight) || weight < 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组和非负整数 weight。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const fingerprints = await this.resolveKeyFingerprints(keys);
+			const batchSize = 500;
+			for (let i = 0; i < fingerprints.length; i += batchSize) {
+				const batch = fingerprints.slice(i, i + batchSize);
+				const placeholders = batch.map(() => '?').join(',');
+				await this.ctx.storage.sql.exec(`UPDATE api_keys SET weight = ? WHERE fingerprint IN (${placeholders})`, weight, ...batch);
+			}
+			this.invalidateKeyCache();
+			this.recordAudit(request, 'set_key_weight', fingerprints, String(weight));
+
+			return new Response(JSON.stringify({ message: '密钥权重已更新。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('更新密钥权重失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetPools(): Promise<Response> {
+		try {
+			const now = Math.floor(Date.now() / 1000);
+			const pools = Array.from(
+				await this.ctx.storage.sql
+					.exec(
+						"SELECT pool, COUNT(*), SUM(CASE WHEN status != 'disabled' AND cooldown_until <= ? THEN 1 ELSE 0 END) FROM api_keys GROUP BY pool ORDER BY pool",
+						now
+					)
+					.raw()
+			).map(([pool, keys, available]) => ({ pool: pool || DEFAULT_KEY_POOL, keys, available }));
+
+			return new Response(JSON.stringify({ pools }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取密钥池失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetKeyPool(request: Request): Promise<Response> {
+		try {
+			const { keys, pool } = (await request.json()) as { keys: string[]; pool: string };
+			if (!Array.isArray(keys) || keys.length === 0 || typeof pool !== 'string' || !pool.trim()) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含key的非空数组和 pool。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const fingerprints = await this.resolveKeyFingerprints(keys);
 			const batchSize = 500;
-			for (let i = 0; i < keys.length; i += batchSize) {
-				const batch = keys.slice(i, i + batchSize);
+			for (let i = 0; i < fingerprints.length; i += batchSize) {
+				const batch = fingerprints.slice(i, i + batchSize);
 				const placeholders = batch.map(() => '?').join(',');
-				await this.ctx.storage.sql.exec(`DELETE FROM api_keys WHERE api_key IN (${placeholders})`, ...batch);
+				await this.ctx.storage.sql.exec(`UPDATE api_keys SET pool = ? WHERE fingerprint IN (${placeholders})`, pool.trim(), ...batch);
+			}
+			this.invalidateKeyCache();
+			this.recordAudit(request, 'set_key_pool', fingerprints, pool.trim());
+
+			return new Response(JSON.stringify({ message: '密钥池已更新。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('更新密钥池失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetRoutingRules(): Promise<Response> {
+		try {
+			const rules = Array.from(
+				await this.ctx.storage.sql
+					.exec('SELECT id, endpoint, model_pattern, pool, priority FROM routing_rules ORDER BY priority DESC, id')
+					.raw()
+			).map(([id, endpoint, model_pattern, pool, priority]) => ({ id, endpoint, model_pattern, pool, priority }));
+
+			return new Response(JSON.stringify({ rules, endpoints: ['*', ...KEY_ROUTES] }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取路由规则失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleAddRoutingRule(request: Request): Promise<Response> {
+		try {
+			const {
+				endpoint = '*',
+				model_pattern = '*',
+				pool,
+				priority = 0,
+			} = (await request.json()) as { endpoint?: string; model_pattern?: string; pool: string; priority?: number };
+			if (
+				!['*', ...KEY_ROUTES].includes(endpoint) ||
+				typeof model_pattern !== 'string' ||
+				!model_pattern.trim() ||
+				typeof pool !== 'string' ||
+				!pool.trim() ||
+				!Number.isInteger(priority)
+			) {
+				return new Response(
+					JSON.stringify({ error: `请求体无效，需要 pool，endpoint 可选值: ${['*', ...KEY_ROUTES].join(', ')}，priority 为整数。` }),
+					{
+						status: 400,
+						headers: { 'Content-Type': 'application/json' },
+					}
+				);
+			}
+
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO routing_rules (endpoint, model_pattern, pool, priority) VALUES (?, ?, ?, ?)',
+				endpoint,
+				model_pattern.trim().replace(/^models\//, ''),
+				pool.trim(),
+				priority
+			);
+			this.routingRulesCache = null;
+			this.recordAudit(
+				request,
+				'add_routing_rule',
+				[],
+				JSON.stringify({ endpoint, model_pattern: model_pattern.trim().replace(/^models\//, ''), pool: pool.trim(), priority })
+			);
+
+			return new Response(JSON.stringify({ message: '路由规则已添加。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('添加路由规则失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleDeleteRoutingRules(request: Request): Promise<Response> {
+		try {
+			const { ids } = (await request.json()) as { ids: number[] };
+			if (!Array.isArray(ids) || ids.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含规则 id 的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const placeholders = ids.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM routing_rules WHERE id IN (${placeholders})`, ...ids);
+			this.routingRulesCache = null;
+			this.recordAudit(request, 'delete_routing_rules', ids.map(String));
+
+			return new Response(JSON.stringify({ message: '路由规则已删除。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除路由规则失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetClientKeys(): Promise<Response> {
+		try {
+			const clientKeys = Array.from(
+				await this.ctx.storage.sql
+					.exec('SELECT id, name, masked_key, enabled, created_at, expires_at, last_used_at, rotated_at FROM client_keys ORDER BY created_at DESC')
+					.raw()
+			).map(([id, name, masked_key, enabled, created_at, expires_at, last_used_at, rotated_at]) => ({
+				id,
+				name,
+				masked_key,
+				enabled: Boolean(enabled),
+				created_at,
+				expires_at,
+				last_used_at: last_used_at || null,
+				rotated_at,
+			}));
+
+			return new Response(JSON.stringify({ client_keys: clientKeys, root_key_enabled: Boolean(this.env.AUTH_KEY) }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取客户端密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 签发客户端密钥，明文只在响应中返回这一次
+	async handleCreateClientKey(request: Request): Promise<Response> {
+		try {
+			const { name, expires_in_days } = (await request.json()) as { name: string; expires_in_days?: number | null };
+			if (
+				typeof name !== 'string' ||
+				!name.trim() ||
+				(expires_in_days !== undefined && expires_in_days !== null && !(Number.isInteger(expires_in_days) && expires_in_days > 0))
+			) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要名称 name，expires_in_days 为正整数（可选）。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const id = crypto.randomUUID();
+			const secret = generateClientKey();
+			const now = Math.floor(Date.now() / 1000);
+			const expiresAt = expires_in_days ? now + expires_in_days * 24 * 60 * 60 : null;
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO client_keys (id, name, key_hash, masked_key, enabled, created_at, expires_at) VALUES (?, ?, ?, ?, 1, ?, ?)',
+				id,
+				name.trim(),
+				await sha256Hex(secret),
+				maskApiKey(secret),
+				now,
+				expiresAt
+			);
+			this.clientKeyCache = null;
+			this.recordAudit(request, 'create_client_key', [id], name.trim());
+
+			return new Response(JSON.stringify({ id, name: name.trim(), api_key: secret, expires_at: expiresAt }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+			});
+		} catch (error: any) {
+			console.error('签发客户端密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 吊销（停用）或恢复客户端密钥，停用后立即拒绝使用该密钥的请求
+	async handleSetClientKeysEnabled(request: Request, enabled: boolean): Promise<Response> {
+		try {
+			const { ids } = (await request.json()) as { ids: string[] };
+			if (!Array.isArray(ids) || ids.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含客户端密钥 id 的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const placeholders = ids.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`UPDATE client_keys SET enabled = ? WHERE id IN (${placeholders})`, enabled ? 1 : 0, ...ids);
+			this.clientKeyCache = null;
+			this.recordAudit(request, enabled ? 'enable_client_key' : 'revoke_client_key', ids);
+
+			return new Response(JSON.stringify({ message: enabled ? '客户端密钥已启用。' : '客户端密钥已吊销。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error(enabled ? '启用客户端密钥失败:' : '吊销客户端密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 轮换客户端密钥：生成新的明文，旧密钥立即失效，名称、有效期等设置保持不变
+	async handleRotateClientKey(request: Request): Promise<Response> {
+		try {
+			const { id } = (await request.json()) as { id: string };
+			if (typeof id !== 'string' || !id) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要客户端密钥 id。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const secret = generateClientKey();
+			const rotated = this.ctx.storage.sql.exec(
+				'UPDATE client_keys SET key_hash = ?, masked_key = ?, rotated_at = ? WHERE id = ?',
+				await sha256Hex(secret),
+				maskApiKey(secret),
+				Math.floor(Date.now() / 1000),
+				id
+			).rowsWritten;
+			if (rotated === 0) {
+				return new Response(JSON.stringify({ error: '客户端密钥不存在。' }), {
+					status: 404,
+					headers: { 'Content-Type': 'application/json' },
+				});
 			}
+			this.clientKeyCache = null;
+			this.recordAudit(request, 'rotate_client_key', [id]);
 
-			return new Response(JSON.stringify({ message: 'API密钥删除成功。' }), {
+			return new Response(JSON.stringify({ id, api_key: secret }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+			});
+		} catch (error: any) {
+			console.error('轮换客户端密钥失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleDeleteClientKeys(request: Request): Promise<Response> {
+		try {
+			const { ids } = (await request.json()) as { ids: string[] };
+			if (!Array.isArray(ids) || ids.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含客户端密钥 id 的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const placeholders = ids.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM client_keys WHERE id IN (${placeholders})`, ...ids);
+			this.clientKeyCache = null;
+			this.recordAudit(request, 'delete_client_key', ids);
+
+			return new Response(JSON.stringify({ message: '客户端密钥已删除。' }), {
 				status: 200,
 				headers: { 'Content-Type': 'application/json' },
 			});
 		} catch (error: any) {
-			console.error('删除API密钥失败:', error);
+			console.error('删除客户端密钥失败:', error);
 			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
 				status: 500,
 				headers: { 'Content-Type': 'application/json' },
@@ -997,42 +4337,189 @@ export class LoadBalancer extends DurableObject {
 		}
 	}
 
-	async handleApiKeysCheck(): Promise<Response> {
+	async handleGetClientLimits(): Promise<Response> {
 		try {
-			const results = await this.ctx.storage.sql.exec('SELECT api_key FROM api_keys').raw<any>();
-			const keys = Array.from(results);
-			console.log('keys: ', keys);
-
-			const checkResults = await Promise.all(
-				keys.map(async (key: string) => {
-					console.log('checking key: ', key);
-					try {
-						const response = await fetch(`${BASE_URL}/${API_VERSION}/models?key=${key}`);
-						return { key: key, valid: response.ok, error: response.ok ? null : await response.text() };
-					} catch (e: any) {
-						return { key: key, valid: false, error: e.message };
+			this.flushUsage();
+			const now = Math.floor(Date.now() / 1000);
+			const dayStart = getUtcDayStart(now);
+			const monthStart = getUtcMonthStart(now);
+
+			const limits = Array.from(
+				await this.ctx.storage.sql.exec('SELECT subject, rpm, rpd, daily_tokens, monthly_tokens FROM client_limits ORDER BY subject').raw()
+			).map(([subject, rpm, rpd, daily_tokens, monthly_tokens]) => ({
+				subject,
+				rpm: rpm ?? 0,
+				rpd: rpd ?? 0,
+				daily_tokens: daily_tokens ?? 0,
+				monthly_tokens: monthly_tokens ?? 0,
+			}));
+			const names = new Map([[ROOT_CLIENT_ID, 'AUTH_KEY'], ...Array.from(this.getCachedClientKeys().values(), (row): [string, string] => [row.id, row.name])]);
+			const usage = Array.from(
+				await this.ctx.storage.sql
+					.exec(
+						'SELECT client, sub_client, SUM(CASE WHEN timestamp > ? THEN requests ELSE 0 END), SUM(CASE WHEN timestamp >= ? THEN requests ELSE 0 END), SUM(CASE WHEN timestamp >= ? THEN tokens ELSE 0 END), SUM(CASE WHEN timestamp >= ? THEN tokens ELSE 0 END) FROM client_usage_logs WHERE timestamp >= ? GROUP BY client, sub_client ORDER BY client, sub_client',
+						now - 60,
+						dayStart,
+						dayStart,
+						monthStart,
+						Math.min(monthStart, now - 60)
+					)
+					.raw()
+			).map(([client, sub_client, minute_requests, day_requests, day_tokens, month_tokens]) => ({
+				client,
+				name: names.get(String(client)) ?? null,
+				sub_client,
+				minute_requests,
+				day_requests,
+				day_tokens,
+				month_tokens,
+			}));
+
+			return new Response(JSON.stringify({ limits, usage, day_reset_at: dayStart + 86400, month_reset_at: getUtcMonthStart(now, 1) }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取调用方限额失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetClientLimit(request: Request): Promise<Response> {
+		try {
+			const { subject, rpm, rpd, daily_tokens, monthly_tokens } = (await request.json()) as { subject: string } & Partial<ClientLimit>;
+			const isLimit = (value: unknown) => value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+			if (typeof subject !== 'string' || !subject.trim() || ![rpm, rpd, daily_tokens, monthly_tokens].every(isLimit)) {
+				return new Response(
+					JSON.stringify({ error: '请求体无效，需要 subject（客户端密钥 id、<id>:<X-Client-Id> 或 *）以及非负整数 rpm / rpd / daily_tokens / monthly_tokens。' }),
+					{
+						status: 400,
+						headers: { 'Content-Type': 'application/json' },
 					}
-				})
+				);
+			}
+
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO client_limits (subject, rpm, rpd, daily_tokens, monthly_tokens) VALUES (?, ?, ?, ?, ?) ON CONFLICT(subject) DO UPDATE SET rpm = excluded.rpm, rpd = excluded.rpd, daily_tokens = excluded.daily_tokens, monthly_tokens = excluded.monthly_tokens',
+				subject.trim(),
+				rpm ?? 0,
+				rpd ?? 0,
+				daily_tokens ?? 0,
+				monthly_tokens ?? 0
 			);
+			this.clientLimitCache = null;
+			this.recordAudit(request, 'set_client_limit', [subject.trim()], JSON.stringify({ rpm, rpd, daily_tokens, monthly_tokens }));
 
-			const invalidKeys = checkResults.filter((result) => !result.valid).map((result) => result.key);
-			if (invalidKeys.length > 0) {
-				console.log('InvalidKeys: ', JSON.stringify(invalidKeys));
-				const batchSize = 500;
-				for (let i = 0; i < invalidKeys.length; i += batchSize) {
-					const batch = invalidKeys.slice(i, i + batchSize);
-					const placeholders = batch.map(() => '?').join(',');
-					const statement = `DELETE FROM api_keys WHERE api_key IN (${placeholders})`;
-					await this.ctx.storage.sql.exec(statement, ...batch);
+			return new Response(JSON.stringify({ message: '调用方限额已保存。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('保存调用方限额失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleDeleteClientLimits(request: Request): Promise<Response> {
+		try {
+			const { subjects } = (await request.json()) as { subjects: string[] };
+			if (!Array.isArray(subjects) || subjects.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含 subject 的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			const placeholders = subjects.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM client_limits WHERE subject IN (${placeholders})`, ...subjects);
+			this.clientLimitCache = null;
+			this.recordAudit(request, 'delete_client_limit', subjects);
+
+			return new Response(JSON.stringify({ message: '调用方限额已删除。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除调用方限额失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetModelPolicies(): Promise<Response> {
+		try {
+			const policies = Array.from(this.getModelPolicies(), ([subject, policy]) => ({ subject, ...policy })).sort((a, b) =>
+				a.subject.localeCompare(b.subject)
+			);
+
+			return new Response(
+				JSON.stringify({ policies, defaults: { default_chat_model: DEFAULT_CHAT_MODEL, default_embedding_model: DEFAULT_EMBEDDINGS_MODEL } }),
+				{
+					headers: { 'Content-Type': 'application/json' },
 				}
-				console.log(`移除了 ${invalidKeys.length} 个无效的API密钥。`);
+			);
+		} catch (error: any) {
+			console.error('获取模型策略失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetModelPolicy(request: Request): Promise<Response> {
+		try {
+			const { subject, allowed_models, default_chat_model, default_embedding_model } = (await request.json()) as { subject: string } & Partial<ModelPolicy>;
+			const isModelName = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+			const isOptionalModelName = (value: unknown) => value === undefined || value === null || value === '' || isModelName(value);
+			if (
+				!isModelName(subject) ||
+				!(allowed_models === undefined || allowed_models === null || (Array.isArray(allowed_models) && allowed_models.every(isModelName))) ||
+				!isOptionalModelName(default_chat_model) ||
+				!isOptionalModelName(default_embedding_model)
+			) {
+				return new Response(
+					JSON.stringify({ error: '请求体无效，需要 subject（客户端密钥 id 或 *），allowed_models 为模型名数组（可选），默认模型为字符串（可选）。' }),
+					{
+						status: 400,
+						headers: { 'Content-Type': 'application/json' },
+					}
+				);
 			}
 
-			return new Response(JSON.stringify(checkResults), {
+			const allowed = allowed_models?.length ? allowed_models.map((model) => normalizeModelName(model.trim())) : null;
+			const defaults = [default_chat_model, default_embedding_model].map((model) => (model ? normalizeModelName(model.trim()) : null));
+			// 默认模型也要在允许列表中，否则没有指定模型的请求都会被拒绝
+			const disallowed = defaults.find((model) => model && allowed && !allowed.some((pattern) => matchModelPattern(pattern, model)));
+			if (disallowed) {
+				return new Response(JSON.stringify({ error: `默认模型 ${disallowed} 不在允许的模型列表中。` }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO model_policies (subject, allowed_models, default_chat_model, default_embedding_model) VALUES (?, ?, ?, ?) ON CONFLICT(subject) DO UPDATE SET allowed_models = excluded.allowed_models, default_chat_model = excluded.default_chat_model, default_embedding_model = excluded.default_embedding_model',
+				subject.trim(),
+				allowed ? JSON.stringify(allowed) : null,
+				...defaults
+			);
+			this.modelPolicyCache = null;
+			this.recordAudit(request, 'set_model_policy', [subject.trim()], JSON.stringify({ allowed_models: allowed, defaults }));
+
+			return new Response(JSON.stringify({ message: '模型策略已保存。' }), {
+				status: 200,
 				headers: { 'Content-Type': 'application/json' },
 			});
 		} catch (error: any) {
-			console.error('检查API密钥失败:', error);
+			console.error('保存模型策略失败:', error);
 			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
 				status: 500,
 				headers: { 'Content-Type': 'application/json' },
@@ -1040,95 +4527,310 @@ export class LoadBalancer extends DurableObject {
 		}
 	}
 
-	// async getAllApiKeys(): Promise<Response> {
-	// 	try {
-	// 		const results = await this.ctx.storage.sql.exec('SELECT * FROM api_keys').raw();
-	// 		const keys = Array.from(results);
-	// 		console.log('getAllApiKeys keys: ', keys);
-	// 		return new Response(JSON.stringify({ keys }), {
-	// 			headers: { 'Content-Type': 'application/json' },
-	// 		});
-			
-	// 	} catch (error: any) {
-	// 		console.error('获取API密钥失败:', error);
-	// 		return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
-	// 			status: 500,
-	// 			headers: { 'Content-Type': 'application/json' },
-	// 		});
-	// 	}
-	// }
+	async handleDeleteModelPolicies(request: Request): Promise<Response> {
+		try {
+			const { subjects } = (await request.json()) as { subjects: string[] };
+			if (!Array.isArray(subjects) || subjects.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含 subject 的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
 
-	// ... existing code ...
-async getAllApiKeys(): Promise<Response> {
-	try {
-		const results = await this.ctx.storage.sql.exec('SELECT * FROM api_keys').raw();
-		const rawKeys = Array.from(results);
-		console.log('getAllApiKeys keys: ', rawKeys);
-		
-		// 将原始数组转换为对象数组
-		const keys = rawKeys.map(([api_key, total_calls]) => ({
-			api_key,
-			total_calls: total_calls || 0
-		}));
-		
-		return new Response(JSON.stringify({ keys }), {
-			headers: { 'Content-Type': 'application/json' },
-		});
-		
-	} catch (error: any) {
-		console.error('获取API密钥失败:', error);
-		return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
-			status: 500,
-			headers: { 'Content-Type': 'application/json' },
-		});
+			const placeholders = subjects.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM model_policies WHERE subject IN (${placeholders})`, ...subjects);
+			this.modelPolicyCache = null;
+			this.recordAudit(request, 'delete_model_policy', subjects);
+
+			return new Response(JSON.stringify({ message: '模型策略已删除。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除模型策略失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
 	}
-}
-// ... existing code ...
 
-	async handleApiKeysStats(): Promise<Response> {
+	/**
+	 * 查询审计日志，按时间倒序分页：limit 为每页条数，before 为上一页返回的 next_before。
+	 * 可用 action、actor（来源 IP）、session_id、fingerprint、since / until（秒级时间戳）过滤。
+	 */
+	async handleGetAuditLogs(url: URL): Promise<Response> {
+		try {
+			const limit = Math.min(500, Math.max(1, parseIntOr(url.searchParams.get('limit'), 50)));
+			const conditions: string[] = [];
+			const params: (string | number)[] = [];
+			for (const column of ['action', 'actor', 'session_id'] as const) {
+				const value = url.searchParams.get(column);
+				if (value) {
+					conditions.push(`${column} = ?`);
+					params.push(value);
+				}
+			}
+			const fingerprint = url.searchParams.get('fingerprint');
+			if (fingerprint) {
+				// fingerprints 以逗号分隔保存，传入完整密钥时先换算成指纹
+				conditions.push("(',' || fingerprints || ',') LIKE ?");
+				params.push(`%,${(await this.resolveKeyFingerprints([fingerprint]))[0]},%`);
+			}
+			for (const [name, condition] of [
+				['before', 'id < ?'],
+				['since', 'created_at >= ?'],
+				['until', 'created_at <= ?'],
+			] as const) {
+				const value = parseIntOr(url.searchParams.get(name), NaN);
+				if (!Number.isNaN(value)) {
+					conditions.push(condition);
+					params.push(value);
+				}
+			}
+			const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+			const logs = Array.from(
+				await this.ctx.storage.sql
+					.exec(
+						`SELECT id, action, fingerprints, actor, session_id, detail, created_at FROM audit_logs ${where} ORDER BY id DESC LIMIT ?`,
+						...params,
+						limit + 1
+					)
+					.raw()
+			).map(([id, action, fingerprints, actor, session_id, detail, created_at]) => ({
+				id: Number(id),
+				action,
+				fingerprints: fingerprints ? String(fingerprints).split(',') : [],
+				actor,
+				session_id,
+				detail,
+				created_at,
+			}));
+			const hasMore = logs.length > limit;
+			const page = logs.slice(0, limit);
+
+			return new Response(JSON.stringify({ logs: page, next_before: hasMore ? page[page.length - 1].id : null }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取审计日志失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 认证失败状态和最近的失败记录，可用 ?scope=admin|proxy&ip=<ip>&limit=100 过滤
+	async handleGetAuthFailures(url: URL): Promise<Response> {
 		try {
+			const scope = url.searchParams.get('scope');
+			const ip = url.searchParams.get('ip');
+			const limit = Math.min(1000, Math.max(1, parseIntOr(url.searchParams.get('limit'), 100)));
 			const now = Math.floor(Date.now() / 1000);
-			const oneMinuteAgo = now - 60;
-			const twentyFourHoursAgo = now - 24 * 60 * 60;
+			const lockouts = Array.from(this.getAuthLockouts(), ([key, lockout]) => {
+				const separator = key.indexOf(':');
+				return { scope: key.substring(0, separator), ip: key.substring(separator + 1), ...lockout, locked: lockout.locked_until > now };
+			})
+				.filter((lockout) => (!scope || lockout.scope === scope) && (!ip || lockout.ip === ip))
+				.sort((a, b) => b.last_failure_at - a.last_failure_at);
 
-			// Clean up old logs first
-			await this.ctx.storage.sql.exec('DELETE FROM api_key_usage_logs WHERE timestamp < ?', twentyFourHoursAgo - 60); // A little buffer
+			const conditions: string[] = [];
+			const params: (string | number)[] = [];
+			if (scope) {
+				conditions.push('scope = ?');
+				params.push(scope);
+			}
+			if (ip) {
+				conditions.push('ip = ?');
+				params.push(ip);
+			}
+			const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+			const failures = Array.from(
+				await this.ctx.storage.sql
+					.exec(`SELECT scope, ip, path, created_at FROM auth_failures ${where} ORDER BY id DESC LIMIT ?`, ...params, limit)
+					.raw()
+			).map(([scope, ip, path, created_at]) => ({ scope, ip, path, created_at }));
 
-			const keysResult = await this.ctx.storage.sql.exec('SELECT api_key, total_calls FROM api_keys').raw<any>();
-			const keys = Array.from(keysResult);
+			return new Response(JSON.stringify({ lockouts, failures }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取认证失败记录失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
 
-			const stats = await Promise.all(
-				keys.map(async (key) => {
-					const [api_key, total_calls] = key as [string, number];
+	// 解除 IP 的锁定并清零失败次数，失败记录保留
+	async handleDeleteAuthLockouts(request: Request): Promise<Response> {
+		try {
+			const { ips } = (await request.json()) as { ips?: string[] };
+			if (!Array.isArray(ips) || ips.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，ips 需要是非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
 
-					const oneMinuteCountResult = await this.ctx.storage.sql
-						.exec('SELECT COUNT(*) as count FROM api_key_usage_logs WHERE api_key = ? AND timestamp >= ?', api_key, oneMinuteAgo)
-						.raw<any>();
-					const oneMinuteCount = (Array.from(oneMinuteCountResult)[0]?.[0] as number) ?? 0
+			const placeholders = ips.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM auth_lockouts WHERE ip IN (${placeholders})`, ...ips);
+			this.authLockoutCache = null;
+			this.recordAudit(request, 'unlock_auth', ips);
 
-					const twentyFourHourCountResult = await this.ctx.storage.sql
-						.exec(
-							'SELECT COUNT(*) as count FROM api_key_usage_logs WHERE api_key = ? AND timestamp >= ?',
-							api_key,
-							twentyFourHoursAgo
-						)
-						.raw<any>();
-					const twentyFourHourCount = (Array.from(twentyFourHourCountResult)[0]?.[0] as number) ?? 0;
+			return new Response(JSON.stringify({ message: '已解除锁定。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('解除认证锁定失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetAffinities(): Promise<Response> {
+		try {
+			const affinities = Array.from(
+				await this.ctx.storage.sql
+					.exec('SELECT affinity, fingerprint, expires_at FROM key_affinities WHERE expires_at > ? ORDER BY expires_at DESC', Math.floor(Date.now() / 1000))
+					.raw()
+			).map(([affinity, fingerprint, expires_at]) => ({ affinity, fingerprint, expires_at }));
+
+			return new Response(JSON.stringify({ affinities, ttl_seconds: this.getAffinityTtl() }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取密钥亲和映射失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	// 解除亲和映射，不传 affinities 时清空全部
+	async handleDeleteAffinities(request: Request): Promise<Response> {
+		try {
+			const text = await request.text();
+			const { affinities } = (text ? JSON.parse(text) : {}) as { affinities?: string[] };
+			if (affinities !== undefined && (!Array.isArray(affinities) || affinities.length === 0)) {
+				return new Response(JSON.stringify({ error: '请求体无效，affinities 需要是非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			if (affinities) {
+				const placeholders = affinities.map(() => '?').join(',');
+				await this.ctx.storage.sql.exec(`DELETE FROM key_affinities WHERE affinity IN (${placeholders})`, ...affinities);
+			} else {
+				await this.ctx.storage.sql.exec('DELETE FROM key_affinities');
+			}
+			this.recordAudit(request, 'delete_affinities', affinities ?? [], affinities ? undefined : 'all');
+
+			return new Response(JSON.stringify({ message: '密钥亲和映射已删除。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('删除密钥亲和映射失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleGetQuotas(): Promise<Response> {
+		try {
+			this.flushUsage();
+			const now = Math.floor(Date.now() / 1000);
+			const dayStart = getQuotaDayStart(now);
+			const quotas = Array.from(await this.ctx.storage.sql.exec('SELECT model, rpm, rpd FROM model_quotas ORDER BY model').raw()).map(
+				([model, rpm, rpd]) => ({ model, rpm: rpm ?? 0, rpd: rpd ?? 0 })
+			);
+			// 附带各模型在当前配额日内的调用量，便于对照配额
+			const usage = Array.from(
+				await this.ctx.storage.sql
+					.exec(
+						'SELECT model, COUNT(*), SUM(CASE WHEN timestamp >= ? THEN 1 ELSE 0 END) FROM api_key_usage_logs WHERE model IS NOT NULL AND timestamp >= ? GROUP BY model',
+						now - 60,
+						dayStart
+					)
+					.raw()
+			).map(([model, day_calls, minute_calls]) => ({ model, minute_calls, day_calls }));
+
+			return new Response(JSON.stringify({ quotas, usage, reset_at: getQuotaDayStart(dayStart + 26 * 3600) }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('获取模型配额失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleSetQuota(request: Request): Promise<Response> {
+		try {
+			const { model, rpm, rpd } = (await request.json()) as { model: string; rpm?: number; rpd?: number };
+			const isLimit = (value: unknown) => value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+			if (typeof model !== 'string' || !model.trim() || !isLimit(rpm) || !isLimit(rpd)) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要 model 以及非负整数 rpm / rpd。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
+
+			await this.ctx.storage.sql.exec(
+				'INSERT INTO model_quotas (model, rpm, rpd) VALUES (?, ?, ?) ON CONFLICT(model) DO UPDATE SET rpm = excluded.rpm, rpd = excluded.rpd',
+				model.trim().replace(/^models\//, ''),
+				rpm ?? 0,
+				rpd ?? 0
+			);
+			this.modelQuotaCache = null;
+			this.recordAudit(request, 'set_quota', [model.trim().replace(/^models\//, '')], JSON.stringify({ rpm: rpm ?? 0, rpd: rpd ?? 0 }));
+
+			return new Response(JSON.stringify({ message: '模型配额已保存。' }), {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (error: any) {
+			console.error('保存模型配额失败:', error);
+			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+	}
+
+	async handleDeleteQuotas(request: Request): Promise<Response> {
+		try {
+			const { models } = (await request.json()) as { models: string[] };
+			if (!Array.isArray(models) || models.length === 0) {
+				return new Response(JSON.stringify({ error: '请求体无效，需要一个包含模型名的非空数组。' }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' },
+				});
+			}
 
-					return {
-						api_key,
-						total_calls,
-						one_minute_calls: oneMinuteCount,
-						twenty_four_hour_calls: twentyFourHourCount,
-					};
-				})
-			);
+			const placeholders = models.map(() => '?').join(',');
+			await this.ctx.storage.sql.exec(`DELETE FROM model_quotas WHERE model IN (${placeholders})`, ...models);
+			this.modelQuotaCache = null;
+			this.recordAudit(request, 'delete_quotas', models);
 
-			return new Response(JSON.stringify(stats), {
+			return new Response(JSON.stringify({ message: '模型配额已删除。' }), {
+				status: 200,
 				headers: { 'Content-Type': 'application/json' },
 			});
 		} catch (error: any) {
-			console.error('获取API密钥统计失败:', error);
+			console.error('删除模型配额失败:', error);
 			return new Response(JSON.stringify({ error: error.message || '内部服务器错误' }), {
 				status: 500,
 				headers: { 'Content-Type': 'application/json' },
@@ -1140,14 +4842,19 @@ async getAllApiKeys(): Promise<Response> {
 	// Helper Methods
 	// =================================================================================================
 
-	private async getRandomApiKey(): Promise<string | null> {
+	private async getRandomApiKey(): Promise<SelectedKey | null> {
 		try {
-			const results = await this.ctx.storage.sql.exec('SELECT api_key FROM api_keys ORDER BY RANDOM() LIMIT 1').raw<any>();
+			const results = await this.ctx.storage.sql
+				.exec(
+					"SELECT api_key, fingerprint FROM api_keys WHERE status != 'disabled' AND cooldown_until <= ? ORDER BY RANDOM() LIMIT 1",
+					Math.floor(Date.now() / 1000)
+				)
+				.raw<any>();
 			const keys = Array.from(results);
 			if (keys && keys.length > 0) {
-				const key = keys[0] as any;
-				console.log(`Gemini Selected API Key (Fallback): ${key.api_key}`);
-				return key.api_key;
+				const fingerprint = String(keys[0][1]);
+				console.log(`Gemini Selected API Key (Fallback): ${fingerprint}`);
+				return { key: await this.decryptApiKey(String(keys[0][0])), fingerprint };
 			}
 			return null;
 		} catch (error) {
@@ -1156,66 +4863,759 @@ async getAllApiKeys(): Promise<Response> {
 		}
 	}
 
-	private async getNextApiKeyInRotation(): Promise<string | null> {
-		try {
-			// Use blockConcurrencyWhile to ensure atomicity of the counter operations during concurrent requests
-			return await this.ctx.blockConcurrencyWhile(async () => {
-				const allKeysResult = await this.ctx.storage.sql.exec('SELECT api_key FROM api_keys').raw();
-				if (!allKeysResult) {
-					return null;
+	private getKeySelectionStrategy(): KeySelectionStrategy {
+		return this.strategy;
+	}
+
+	// 读取全部密钥，结果缓存在内存中，直到密钥被增删改后失效
+	private getCachedKeys(): ApiKeyRow[] {
+		this.keyCache ??= Array.from(
+			this.ctx.storage.sql
+				.exec('SELECT api_key, fingerprint, pool, status, cooldown_until, consecutive_failures, weight, last_used_at FROM api_keys')
+				.raw()
+		).map(([api_key, fingerprint, pool, status, cooldown_until, consecutive_failures, weight, last_used_at]) => ({
+			api_key: String(api_key),
+			fingerprint: String(fingerprint),
+			pool: String(pool ?? DEFAULT_KEY_POOL),
+			status: String(status ?? 'active'),
+			cooldown_until: Number(cooldown_until ?? 0),
+			consecutive_failures: Number(consecutive_failures ?? 0),
+			weight: Number(weight ?? 1),
+			last_used_at: Number(last_used_at ?? 0),
+		}));
+		return this.keyCache;
+	}
+
+	// 管理操作修改密钥后调用；先写入未落库的用量，保证重新加载后的 last_used_at 是最新的
+	private invalidateKeyCache() {
+		this.flushUsage();
+		this.keyCache = null;
+		this.plaintextCache.clear();
+	}
+
+	// 同步更新内存中的密钥状态，避免熔断状态变化时重新加载整张表
+	private updateCachedKey(fingerprint: string, patch: Partial<ApiKeyRow>) {
+		const key = this.keyCache?.find((row) => row.fingerprint === fingerprint);
+		if (key) {
+			Object.assign(key, patch);
+		}
+	}
+
+	private getCachedClientKeys(): Map<string, ClientKeyRow> {
+		this.clientKeyCache ??= new Map(
+			Array.from(this.ctx.storage.sql.exec('SELECT id, name, key_hash, enabled, expires_at, last_used_at FROM client_keys').raw()).map(
+				([id, name, key_hash, enabled, expires_at, last_used_at]) => [
+					String(key_hash),
+					{
+						id: String(id),
+						name: String(name ?? ''),
+						key_hash: String(key_hash),
+						enabled: Boolean(enabled),
+						expires_at: expires_at === null ? null : Number(expires_at),
+						last_used_at: Number(last_used_at ?? 0),
+					},
+				]
+			)
+		);
+		return this.clientKeyCache;
+	}
+
+	// 配置了 AUTH_KEY 或签发过客户端密钥时，代理请求必须携带有效的令牌
+	private isClientAuthRequired(): boolean {
+		return Boolean(this.env.AUTH_KEY) || this.getCachedClientKeys().size > 0;
+	}
+
+	// 校验调用方令牌，返回调用方身份；令牌无效、已吊销或已过期时返回 null
+	private async authenticateClient(request: Request, token: string | null | undefined): Promise<ClientIdentity | null> {
+		if (!token) {
+			return null;
+		}
+		const subClient = request.headers.get(CLIENT_ID_HEADER)?.trim().substring(0, 100) || null;
+		if (this.env.AUTH_KEY && timingSafeEqual(token, this.env.AUTH_KEY)) {
+			return { id: ROOT_CLIENT_ID, name: 'AUTH_KEY', sub_client: subClient };
+		}
+		if (!token.startsWith(CLIENT_KEY_PREFIX)) {
+			return null;
+		}
+		const clientKey = this.getCachedClientKeys().get(await sha256Hex(token));
+		const now = Math.floor(Date.now() / 1000);
+		if (!clientKey || !clientKey.enabled || (clientKey.expires_at !== null && clientKey.expires_at <= now)) {
+			return null;
+		}
+		if (now - clientKey.last_used_at >= CLIENT_KEY_LAST_USED_RESOLUTION_SECONDS) {
+			clientKey.last_used_at = now;
+			this.ctx.storage.sql.exec('UPDATE client_keys SET last_used_at = ? WHERE id = ?', now, clientKey.id);
+		}
+		return { id: clientKey.id, name: clientKey.name, sub_client: subClient };
+	}
+
+	// 代理接口认证，返回调用方身份或错误响应：锁定中的 IP 直接返回 429，认证失败计入该 IP 的失败次数
+	private async authenticateProxyRequest(request: Request, token: string | null | undefined): Promise<ClientIdentity | Response> {
+		const ip = getClientIp(request);
+		const lockedFor = this.getAuthLockoutRemaining('proxy', ip);
+		if (lockedFor > 0) {
+			await request.arrayBuffer();
+			return this.authLockedResponse(lockedFor);
+		}
+		const caller = await this.authenticateClient(request, token);
+		if (!caller) {
+			this.recordAuthFailure('proxy', ip, new URL(request.url).pathname);
+			// 先读完请求体再返回，否则 workerd 转发请求体时会在响应后报错并重启 Worker
+			await request.arrayBuffer();
+			return new Response('Unauthorized', { status: 401, headers: fixCors({}).headers });
+		}
+		this.clearAuthFailures('proxy', ip);
+		return caller;
+	}
+
+	private getClientLimits(): Map<string, ClientLimit> {
+		this.clientLimitCache ??= new Map(
+			Array.from(this.ctx.storage.sql.exec('SELECT subject, rpm, rpd, daily_tokens, monthly_tokens FROM client_limits').raw()).map(
+				([subject, rpm, rpd, daily_tokens, monthly_tokens]) => [
+					String(subject),
+					{ rpm: Number(rpm ?? 0), rpd: Number(rpd ?? 0), daily_tokens: Number(daily_tokens ?? 0), monthly_tokens: Number(monthly_tokens ?? 0) },
+				]
+			)
+		);
+		return this.clientLimitCache;
+	}
+
+	private getModelPolicies(): Map<string, ModelPolicy> {
+		this.modelPolicyCache ??= new Map(
+			Array.from(
+				this.ctx.storage.sql.exec('SELECT subject, allowed_models, default_chat_model, default_embedding_model FROM model_policies').raw()
+			).map(([subject, allowed_models, default_chat_model, default_embedding_model]) => [
+				String(subject),
+				{
+					allowed_models: allowed_models ? (JSON.parse(String(allowed_models)) as string[]) : null,
+					default_chat_model: default_chat_model ? String(default_chat_model) : null,
+					default_embedding_model: default_embedding_model ? String(default_embedding_model) : null,
+				},
+			])
+		);
+		return this.modelPolicyCache;
+	}
+
+	// 调用方实际生效的模型策略：客户端密钥自己的配置优先，其次是 *，最后是内置默认值
+	private getModelPolicy(caller: ClientIdentity | null): EffectiveModelPolicy {
+		const policies = this.getModelPolicies();
+		const global = policies.get('*');
+		const own = caller ? policies.get(caller.id) : undefined;
+		return {
+			allowed_models: own?.allowed_models ?? global?.allowed_models ?? null,
+			default_chat_model: own?.default_chat_model ?? global?.default_chat_model ?? DEFAULT_CHAT_MODEL,
+			default_embedding_model: own?.default_embedding_model ?? global?.default_embedding_model ?? DEFAULT_EMBEDDINGS_MODEL,
+		};
+	}
+
+	private isModelAllowed(policy: EffectiveModelPolicy, model: string): boolean {
+		const name = normalizeModelName(model);
+		return !policy.allowed_models || policy.allowed_models.some((pattern) => matchModelPattern(pattern, name));
+	}
+
+	// 模型不在允许列表中时返回 403，错误格式与限额错误一致
+	private modelNotAllowedResponse(model: string, format: ErrorFormat) {
+		const message = `The model \`${normalizeModelName(model)}\` is not allowed for this API key.`;
+		const body =
+			format === 'openai'
+				? { error: { message, type: 'invalid_request_error', param: 'model', code: 'model_not_allowed' } }
+				: format === 'anthropic'
+					? { type: 'error', error: { type: 'permission_error', message } }
+					: { error: { code: 403, message, status: 'PERMISSION_DENIED' } };
+		return new Response(JSON.stringify(body), {
+			status: 403,
+			headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+		});
+	}
+
+	/**
+	 * 获取调用方的用量计数：subClient 为 null 时统计该客户端密钥下的全部请求。
+	 * 与密钥用量一样首次使用时从数据库加载，之后在内存中累加。
+	 */
+	private getClientUsageCounter(client: string, subClient: string | null, now: number): ClientUsageCounter {
+		const scope = `${client}\n${subClient ?? ''}`;
+		const dayStart = getUtcDayStart(now);
+		let counter = this.clientUsageCounters.get(scope);
+		if (!counter || counter.day_start !== dayStart) {
+			const monthStart = getUtcMonthStart(now);
+			const filter = subClient === null ? 'client = ?' : 'client = ? AND sub_client = ?';
+			const params = subClient === null ? [client] : [client, subClient];
+			const [dayRequests, dayTokens, monthTokens] = Array.from(
+				this.ctx.storage.sql
+					.exec(
+						`SELECT SUM(CASE WHEN timestamp >= ? THEN requests ELSE 0 END), SUM(CASE WHEN timestamp >= ? THEN tokens ELSE 0 END), SUM(tokens) FROM client_usage_logs WHERE ${filter} AND timestamp >= ?`,
+						dayStart,
+						dayStart,
+						...params,
+						monthStart
+					)
+					.raw()
+			)[0];
+			const minute = Array.from(
+				this.ctx.storage.sql
+					.exec(`SELECT timestamp FROM client_usage_logs WHERE ${filter} AND requests > 0 AND timestamp > ?`, ...params, now - 60)
+					.raw(),
+				([timestamp]) => Number(timestamp)
+			);
+			counter = {
+				day_start: dayStart,
+				month_start: monthStart,
+				minute,
+				day_requests: Number(dayRequests ?? 0),
+				day_tokens: Number(dayTokens ?? 0),
+				month_tokens: Number(monthTokens ?? 0),
+			};
+			for (const record of this.pendingClientUsage) {
+				if (record.client === client && (subClient === null || record.sub_client === subClient)) {
+					this.countClientUsage(counter, record);
 				}
-				const keys = Array.from(allKeysResult).map((row) => String(row[0]));
+			}
+			this.clientUsageCounters.set(scope, counter);
+		}
+		counter.minute = counter.minute.filter((timestamp) => timestamp > now - 60);
+		return counter;
+	}
+
+	private countClientUsage(counter: ClientUsageCounter, { timestamp, requests, tokens }: ClientUsageRecord) {
+		if (timestamp >= counter.month_start) {
+			counter.month_tokens += tokens;
+		}
+		if (timestamp >= counter.day_start) {
+			counter.day_requests += requests;
+			counter.day_tokens += tokens;
+			if (requests > 0) {
+				counter.minute.push(timestamp);
+			}
+		}
+	}
+
+	private recordClientUsage(caller: ClientIdentity, requests: number, tokens: number) {
+		const record = { client: caller.id, sub_client: caller.sub_client, timestamp: Math.floor(Date.now() / 1000), requests, tokens };
+		this.pendingClientUsage.push(record);
+		for (const subClient of caller.sub_client ? [null, caller.sub_client] : [null]) {
+			const counter = this.clientUsageCounters.get(`${caller.id}\n${subClient ?? ''}`);
+			if (counter) {
+				this.countClientUsage(counter, record);
+			}
+		}
+		this.scheduleUsageFlush();
+	}
+
+	// 记录调用方消耗的 token 数，取自 Gemini 响应中的 usageMetadata
+	private recordClientTokens(caller: ClientIdentity, tokens: number) {
+		if (tokens > 0) {
+			this.recordClientUsage(caller, 0, tokens);
+		}
+	}
+
+	/**
+	 * 在选择 Gemini 密钥之前检查调用方限额。客户端密钥的限额（未配置时使用 * 默认限额）统计该密钥下的全部请求，
+	 * `<id>:<X-Client-Id>` 的限额只统计带该请求头的请求。未超限时计入本次请求。
+	 */
+	private checkClientLimits(caller: ClientIdentity): { statuses: ClientLimitStatus[]; exceeded: ClientLimitStatus[] } {
+		const now = Math.floor(Date.now() / 1000);
+		const limits = this.getClientLimits();
+		const scopes: [ClientLimit | undefined, string | null][] = [[limits.get(caller.id) ?? limits.get('*'), null]];
+		if (caller.sub_client) {
+			scopes.push([limits.get(`${caller.id}:${caller.sub_client}`), caller.sub_client]);
+		}
+
+		const statuses: ClientLimitStatus[] = [];
+		for (const [limit, subClient] of scopes) {
+			if (!limit) {
+				continue;
+			}
+			const counter = this.getClientUsageCounter(caller.id, subClient, now);
+			const dayReset = counter.day_start + 86400 - now;
+			if (limit.rpm > 0) {
+				const reset = counter.minute.length > 0 ? Math.min(...counter.minute) + 60 - now : 60;
+				statuses.push({ type: 'requests', name: 'rpm', limit: limit.rpm, remaining: limit.rpm - counter.minute.length, reset });
+			}
+			if (limit.rpd > 0) {
+				statuses.push({ type: 'requests', name: 'rpd', limit: limit.rpd, remaining: limit.rpd - counter.day_requests, reset: dayReset });
+			}
+			if (limit.daily_tokens > 0) {
+				statuses.push({ type: 'tokens', name: 'daily_tokens', limit: limit.daily_tokens, remaining: limit.daily_tokens - counter.day_tokens, reset: dayReset });
+			}
+			if (limit.monthly_tokens > 0) {
+				statuses.push({
+					type: 'tokens',
+					name: 'monthly_tokens',
+					limit: limit.monthly_tokens,
+					remaining: limit.monthly_tokens - counter.month_tokens,
+					reset: getUtcMonthStart(now, 1) - now,
+				});
+			}
+		}
+
+		const exceeded = statuses.filter((status) => status.remaining <= 0);
+		if (exceeded.length === 0) {
+			this.recordClientUsage(caller, 1, 0);
+			statuses.forEach((status) => status.type === 'requests' && status.remaining--);
+		}
+		return { statuses, exceeded };
+	}
+
+	/**
+	 * 记录一次密钥使用。用量只追加到内存中，按 USAGE_FLUSH_INTERVAL_MS 批量写入数据库，
+	 * 积压过多时立即写入，避免每个请求都等待存储写入完成。
+	 */
+	private recordUsage(fingerprint: string, model: string | null, usedAt: number) {
+		const timestamp = Math.floor(usedAt / 1000);
+		this.pendingUsage.push({ fingerprint, model, timestamp, used_at: usedAt });
+		for (const scope of model ? ['', model] : ['']) {
+			const counter = this.usageCounters.get(scope);
+			if (counter) {
+				this.countUsage(counter, fingerprint, timestamp);
+			}
+		}
+		this.scheduleUsageFlush();
+	}
+
+	private scheduleUsageFlush() {
+		if (this.pendingUsage.length + this.pendingClientUsage.length >= USAGE_FLUSH_MAX_PENDING) {
+			this.flushUsage();
+		} else {
+			this.usageFlushTimer ??= setTimeout(() => this.flushUsage(), USAGE_FLUSH_INTERVAL_MS);
+		}
+	}
 
-				if (!keys || keys.length === 0) {
-					return null;
+	// 限额只统计当月用量，更早的记录可以删除；保留最近一分钟的记录供跨月时的每分钟限额使用
+	private pruneClientUsage() {
+		const now = Math.floor(Date.now() / 1000);
+		if (now - this.clientUsagePrunedAt < CLIENT_USAGE_PRUNE_INTERVAL_SECONDS) {
+			return;
+		}
+		this.clientUsagePrunedAt = now;
+		try {
+			this.ctx.storage.sql.exec('DELETE FROM client_usage_logs WHERE timestamp < ?', Math.min(getUtcMonthStart(now), now - 60));
+		} catch (error) {
+			console.error('清理调用方用量失败:', error);
+		}
+	}
+
+	// 把内存中的用量和轮询下标写入存储；读取统计数据的管理接口会先调用它
+	private flushUsage() {
+		if (this.usageFlushTimer) {
+			clearTimeout(this.usageFlushTimer);
+			this.usageFlushTimer = null;
+		}
+		if (this.roundRobinIndexDirty) {
+			// 写入会被自动合并，无需等待
+			this.ctx.storage.put('round_robin_index', this.roundRobinIndex);
+			this.roundRobinIndexDirty = false;
+		}
+		if (this.pendingClientUsage.length > 0) {
+			const pending = this.pendingClientUsage;
+			this.pendingClientUsage = [];
+			try {
+				this.ctx.storage.transactionSync(() => {
+					for (const { client, sub_client, timestamp, requests, tokens } of pending) {
+						this.ctx.storage.sql.exec(
+							'INSERT INTO client_usage_logs (client, sub_client, timestamp, requests, tokens) VALUES (?, ?, ?, ?, ?)',
+							client,
+							sub_client,
+							timestamp,
+							requests,
+							tokens
+						);
+					}
+				});
+			} catch (error) {
+				console.error('写入调用方用量失败:', error);
+			}
+			this.pruneClientUsage();
+		}
+		if (this.pendingUsage.length === 0) {
+			return;
+		}
+		const pending = this.pendingUsage;
+		this.pendingUsage = [];
+		try {
+			const calls = new Map<string, { count: number; lastUsedAt: number }>();
+			for (const { fingerprint, used_at } of pending) {
+				const entry = calls.get(fingerprint) ?? { count: 0, lastUsedAt: 0 };
+				entry.count++;
+				entry.lastUsedAt = Math.max(entry.lastUsedAt, used_at);
+				calls.set(fingerprint, entry);
+			}
+			this.ctx.storage.transactionSync(() => {
+				for (const { fingerprint, model, timestamp } of pending) {
+					this.ctx.storage.sql.exec('INSERT INTO api_key_usage_logs (fingerprint, model, timestamp) VALUES (?, ?, ?)', fingerprint, model, timestamp);
 				}
+				for (const [fingerprint, { count, lastUsedAt }] of calls) {
+					this.ctx.storage.sql.exec(
+						'UPDATE api_keys SET total_calls = total_calls + ?, last_used_at = MAX(last_used_at, ?) WHERE fingerprint = ?',
+						count,
+						lastUsedAt,
+						fingerprint
+					);
+				}
+			});
+		} catch (error) {
+			console.error('写入密钥用量失败:', error);
+		}
+	}
+
+	/**
+	 * 获取调用计数：scope 为模型名，空字符串表示所有模型。首次使用（或配额日切换）时从数据库加载，
+	 * 之后由 recordUsage 在内存中累加，选择密钥时不再查询用量日志。
+	 */
+	private getUsageCounter(scope: string, now: number): UsageCounter {
+		const dayStart = getQuotaDayStart(now);
+		let counter = this.usageCounters.get(scope);
+		if (!counter || counter.day_start !== dayStart) {
+			counter = { day_start: dayStart, day: new Map(), minute: new Map() };
+			const since = Math.min(dayStart, now - 60);
+			const rows = scope
+				? this.ctx.storage.sql.exec('SELECT fingerprint, timestamp FROM api_key_usage_logs WHERE model = ? AND timestamp >= ?', scope, since).raw()
+				: this.ctx.storage.sql.exec('SELECT fingerprint, timestamp FROM api_key_usage_logs WHERE timestamp >= ?', since).raw();
+			const records = [
+				...Array.from(rows).map(([fingerprint, timestamp]) => ({ fingerprint: String(fingerprint), timestamp: Number(timestamp) })),
+				...this.pendingUsage.filter((record) => record.timestamp >= since && (!scope || record.model === scope)),
+			];
+			for (const { fingerprint, timestamp } of records) {
+				this.countUsage(counter, fingerprint, timestamp);
+			}
+			this.usageCounters.set(scope, counter);
+		}
+		// 丢弃一分钟之前的记录
+		for (const [fingerprint, timestamps] of counter.minute) {
+			while (timestamps.length > 0 && timestamps[0] < now - 60) {
+				timestamps.shift();
+			}
+			if (timestamps.length === 0) {
+				counter.minute.delete(fingerprint);
+			}
+		}
+		return counter;
+	}
 
-				let currentIndex = (await this.ctx.storage.get<number>('round_robin_index')) ?? 0;
+	private countUsage(counter: UsageCounter, fingerprint: string, timestamp: number) {
+		if (timestamp >= counter.day_start) {
+			counter.day.set(fingerprint, (counter.day.get(fingerprint) ?? 0) + 1);
+		}
+		const timestamps = counter.minute.get(fingerprint) ?? [];
+		timestamps.push(timestamp);
+		if (timestamps.length > 1 && timestamp < timestamps[timestamps.length - 2]) {
+			timestamps.sort((x, y) => x - y);
+		}
+		while (timestamps[0] < timestamps[timestamps.length - 1] - 60) {
+			timestamps.shift();
+		}
+		counter.minute.set(fingerprint, timestamps);
+	}
+
+	/**
+	 * 按当前策略从可用密钥中选出一个。keys 为全部密钥（轮询下标基于它计算），candidates 为排除冷却和已尝试后的可用密钥。
+	 */
+	private selectKeyByStrategy(strategy: KeySelectionStrategy, keys: ApiKeyRow[], candidates: ApiKeyRow[]): ApiKeyRow {
+		switch (strategy) {
+			case 'random':
+				return candidates[Math.floor(Math.random() * candidates.length)];
+			case 'least_recently_used':
+				return candidates.reduce((best, key) => (key.last_used_at < best.last_used_at ? key : best));
+			case 'least_calls_last_minute': {
+				const { minute } = this.getUsageCounter('', Math.floor(Date.now() / 1000));
+				// 调用次数相同时优先选择最久未使用的密钥
+				return candidates.reduce((best, key) => {
+					const diff = (minute.get(key.fingerprint)?.length ?? 0) - (minute.get(best.fingerprint)?.length ?? 0);
+					return diff < 0 || (diff === 0 && key.last_used_at < best.last_used_at) ? key : best;
+				});
+			}
+			case 'weighted': {
+				// 权重为 0 的密钥不参与加权选择，除非所有可用密钥的权重都是 0
+				const weighted = candidates.filter((key) => key.weight > 0);
+				if (weighted.length === 0) {
+					return candidates[Math.floor(Math.random() * candidates.length)];
+				}
+				const total = weighted.reduce((sum, key) => sum + key.weight, 0);
+				let point = Math.random() * total;
+				for (const key of weighted) {
+					point -= key.weight;
+					if (point < 0) {
+						return key;
+					}
+				}
+				return weighted[weighted.length - 1];
+			}
+			case 'round_robin':
+			default: {
+				let currentIndex = this.roundRobinIndex;
 
 				if (currentIndex >= keys.length) {
 					currentIndex = 0;
 				}
 
-				const selectedKey = keys[currentIndex];
-				const nextIndex = (currentIndex + 1) % keys.length;
-				await this.ctx.storage.put('round_robin_index', nextIndex);
+				const available = new Set(candidates);
+				for (let offset = 0; offset < keys.length; offset++) {
+					const selectedIndex = (currentIndex + offset) % keys.length;
+					if (available.has(keys[selectedIndex])) {
+						this.roundRobinIndex = (selectedIndex + 1) % keys.length;
+						this.roundRobinIndexDirty = true;
+						return keys[selectedIndex];
+					}
+				}
+				return candidates[0];
+			}
+		}
+	}
 
-				// Log the usage
-				const timestamp = Math.floor(Date.now() / 1000);
-				await this.ctx.storage.sql.exec('UPDATE api_keys SET total_calls = total_calls + 1 WHERE api_key = ?', selectedKey);
-				await this.ctx.storage.sql.exec('INSERT INTO api_key_usage_logs (api_key, timestamp) VALUES (?, ?)', selectedKey, timestamp);
+	// 查询模型配额，没有单独配置时使用 * 默认配额
+	private getModelQuota(model: string): { rpm: number; rpd: number } | null {
+		this.modelQuotaCache ??= new Map(
+			Array.from(this.ctx.storage.sql.exec('SELECT model, rpm, rpd FROM model_quotas').raw()).map(([model, rpm, rpd]) => [
+				String(model),
+				{ rpm: Number(rpm ?? 0), rpd: Number(rpd ?? 0) },
+			])
+		);
+		return this.modelQuotaCache.get(model) ?? this.modelQuotaCache.get('*') ?? null;
+	}
 
-				console.log(`Gemini Selected API Key (Round-Robin): ${selectedKey}`);
-				return selectedKey;
-			});
+	/**
+	 * 过滤掉已经用完该模型分钟/每日配额的密钥，retryAfter 为被过滤的密钥中最早恢复的秒数。
+	 */
+	private filterKeysByQuota(model: string, candidates: ApiKeyRow[], now: number): { available: ApiKeyRow[]; retryAfter: number } {
+		const quota = this.getModelQuota(model);
+		if (!quota || (!quota.rpm && !quota.rpd)) {
+			return { available: candidates, retryAfter: 0 };
+		}
+
+		const usage = this.getUsageCounter(model, now);
+		const nextReset = getQuotaDayStart(usage.day_start + 26 * 3600);
+		let retryAfter = Infinity;
+		const available = candidates.filter((key) => {
+			if (quota.rpd && (usage.day.get(key.fingerprint) ?? 0) >= quota.rpd) {
+				retryAfter = Math.min(retryAfter, nextReset - now);
+				return false;
+			}
+			const minute = usage.minute.get(key.fingerprint);
+			if (quota.rpm && minute && minute.length >= quota.rpm) {
+				retryAfter = Math.min(retryAfter, minute[0] + 60 - now);
+				return false;
+			}
+			return true;
+		});
+
+		return { available, retryAfter: Math.max(1, retryAfter) };
+	}
+
+	// 按路由规则确定本次请求使用的密钥池，没有规则命中时返回 null，表示可以使用所有密钥
+	private resolveKeyPool(route?: KeyRoute, model?: string): string | null {
+		if (!route) {
+			return null;
+		}
+		this.routingRulesCache ??= Array.from(
+			this.ctx.storage.sql.exec('SELECT endpoint, model_pattern, pool FROM routing_rules ORDER BY priority DESC, id').raw()
+		).map(([endpoint, model_pattern, pool]) => ({ endpoint: String(endpoint), model_pattern: String(model_pattern ?? '*'), pool: String(pool) }));
+		for (const { endpoint, model_pattern, pool } of this.routingRulesCache) {
+			if ((endpoint === '*' || endpoint === route) && (model_pattern === '*' || (model && matchModelPattern(model_pattern, model)))) {
+				return pool;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * 选出本次请求使用的密钥。整个过程是同步的：Durable Object 单线程执行，同步代码之间不会插入其它请求，
+	 * 因此不再需要 blockConcurrencyWhile，也不必等待存储写入完成。
+	 */
+	private selectApiKey({ route, model, exclude = [], affinity }: KeySelectionOptions): ApiKeyRow | QuotaExhaustedError | null {
+		const keys = this.getCachedKeys();
+		if (keys.length === 0) {
+			return null;
+		}
+
+		// 跳过本次请求中已经尝试过的密钥，以及仍在冷却期（含正在探测）的密钥
+		const now = Math.floor(Date.now() / 1000);
+		const pool = this.resolveKeyPool(route, model);
+		const isUsable = (key: ApiKeyRow) => key.status !== 'disabled' && key.cooldown_until <= now && (pool === null || key.pool === pool);
+		let candidates = keys.filter((key) => isUsable(key) && !exclude.includes(key.fingerprint));
+		if (candidates.length === 0) {
+			return null;
+		}
+		if (model) {
+			const { available, retryAfter } = this.filterKeysByQuota(model, candidates, now);
+			if (available.length === 0) {
+				return new QuotaExhaustedError(model, retryAfter);
+			}
+			candidates = available;
+		}
+
+		// 亲和标识绑定的密钥仍然可用时直接使用，否则按策略临时选择其它密钥
+		const pinned = affinity ? this.getKeyAffinity(affinity, now) : null;
+		const strategy = this.getKeySelectionStrategy();
+		const selected = candidates.find((key) => key.fingerprint === pinned?.fingerprint) ?? this.selectKeyByStrategy(strategy, keys, candidates);
+		if (affinity) {
+			if (!pinned) {
+				this.pinKeyAffinity(affinity, selected.fingerprint);
+			} else if (pinned.fingerprint === selected.fingerprint) {
+				// 剩余有效期超过一半时不续期，减少写入
+				if (pinned.expires_at - now < this.getAffinityTtl() / 2) {
+					this.pinKeyAffinity(affinity, selected.fingerprint);
+				}
+			} else {
+				// 只有绑定的密钥确实不可用时才改绑；故障转移中仅被本次请求排除的密钥保持绑定。
+				// 缓存内容属于创建它的密钥所在项目，换成其它密钥也无法访问，因此从不改绑
+				const pinnedKey = keys.find((key) => key.fingerprint === pinned.fingerprint);
+				const pinnedHealthy =
+					pinnedKey !== undefined && isUsable(pinnedKey) && (!model || this.filterKeysByQuota(model, [pinnedKey], now).available.length > 0);
+				if (!pinnedHealthy && !affinity.startsWith('cache:')) {
+					console.warn(`Affinity ${affinity} moved from unavailable key ${pinned.fingerprint} to ${selected.fingerprint}`);
+					this.pinKeyAffinity(affinity, selected.fingerprint);
+				}
+			}
+		}
+
+		// 冷却期已过的密钥进入半开状态，本次请求作为探测，成功后由 recordKeyResult 恢复为 active
+		if (selected.status !== 'active') {
+			this.ctx.storage.sql.exec(
+				"UPDATE api_keys SET status = 'half_open', cooldown_until = ? WHERE fingerprint = ?",
+				now + HALF_OPEN_PROBE_SECONDS,
+				selected.fingerprint
+			);
+			this.updateCachedKey(selected.fingerprint, { status: 'half_open', cooldown_until: now + HALF_OPEN_PROBE_SECONDS });
+		}
+
+		// Log the usage，last_used_at 精确到毫秒，避免同一秒内的多次选择无法区分先后
+		selected.last_used_at = Date.now();
+		this.recordUsage(selected.fingerprint, model ?? null, selected.last_used_at);
+
+		const via = pinned?.fingerprint === selected.fingerprint ? 'affinity' : strategy;
+		console.log(`Gemini Selected API Key (${[via, pool, model].filter(Boolean).join(', ')}): ${selected.fingerprint}`);
+		return selected;
+	}
+
+	private async getNextApiKeyInRotation(options: KeySelectionOptions = {}): Promise<SelectedKey | null> {
+		try {
+			const result = this.selectApiKey(options);
+			if (result instanceof QuotaExhaustedError) {
+				throw result;
+			}
+			if (!result) {
+				return null;
+			}
+			// 解密结果缓存在内存中，密钥变更时随密钥缓存一起清空
+			let key = this.plaintextCache.get(result.fingerprint);
+			if (key === undefined) {
+				key = await this.decryptApiKey(result.api_key);
+				this.plaintextCache.set(result.fingerprint, key);
+			}
+			return { key, fingerprint: result.fingerprint };
 		} catch (error) {
+			// 配额耗尽是预期内的结果，直接交给调用方返回 429
+			if (error instanceof QuotaExhaustedError) {
+				throw error;
+			}
 			console.error('轮询获取API密钥失败:', error);
 			// Fallback to random selection in case of an error to maintain system robustness
 			return this.getRandomApiKey();
 		}
 	}
 
-	private async handleOpenAI(request: Request): Promise<Response> {
-		const authKey = this.env.AUTH_KEY;
-		let apiKey: string | null;
+	// 按 OpenAI 的格式生成 x-ratelimit-* 响应头，请求数和 token 数分别取剩余最少的一项
+	private getRateLimitHeaders(statuses: ClientLimitStatus[]): Record<string, string> {
+		const headers: Record<string, string> = {};
+		for (const type of ['requests', 'tokens'] as const) {
+			const tightest = statuses
+				.filter((status) => status.type === type)
+				.sort((a, b) => a.remaining - b.remaining || b.reset - a.reset)[0];
+			if (tightest) {
+				headers[`x-ratelimit-limit-${type}`] = String(tightest.limit);
+				headers[`x-ratelimit-remaining-${type}`] = String(Math.max(tightest.remaining, 0));
+				headers[`x-ratelimit-reset-${type}`] = `${tightest.reset}s`;
+			}
+		}
+		return headers;
+	}
+
+	// 超出调用方限额时返回 429：OpenAI 兼容接口使用 OpenAI 的错误格式，原生接口使用 Gemini 的错误格式
+	private clientRateLimitResponse(caller: ClientIdentity, { statuses, exceeded }: { statuses: ClientLimitStatus[]; exceeded: ClientLimitStatus[] }, format: ErrorFormat) {
+		const retryAfter = Math.max(...exceeded.map((status) => status.reset));
+		const { type, name, limit } = exceeded.find((status) => status.reset === retryAfter)!;
+		const message = `Rate limit reached for ${caller.sub_client ? `${caller.name} (${caller.sub_client})` : caller.name} on ${name}: limit ${limit}. Please try again in ${retryAfter}s.`;
+		const body =
+			format === 'openai'
+				? { error: { message, type, param: null, code: 'rate_limit_exceeded' } }
+				: format === 'anthropic'
+					? { type: 'error', error: { type: 'rate_limit_error', message } }
+					: { error: { code: 429, message, status: 'RESOURCE_EXHAUSTED' } };
+		console.warn(`客户端 ${caller.id}${caller.sub_client ? `:${caller.sub_client}` : ''} 超出限额 ${name}`);
+		return new Response(JSON.stringify(body), {
+			status: 429,
+			headers: fixCors({
+				headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter), ...this.getRateLimitHeaders(statuses) },
+			}).headers,
+		});
+	}
+
+	private withRateLimitHeaders(response: Response, statuses: ClientLimitStatus[]): Response {
+		const headers = this.getRateLimitHeaders(statuses);
+		if (Object.keys(headers).length === 0) {
+			return response;
+		}
+		const wrapped = new Response(response.body, response);
+		for (const [name, value] of Object.entries(headers)) {
+			wrapped.headers.set(name, value);
+		}
+		return wrapped;
+	}
 
+	private async handleOpenAI(request: Request): Promise<Response> {
 		const authHeader = request.headers.get('Authorization');
-		apiKey = authHeader?.replace('Bearer ', '') ?? null;
-		if (!apiKey) {
+		// Anthropic SDK 使用 x-api-key 请求头
+		const clientKey = authHeader?.replace('Bearer ', '') ?? request.headers.get('x-api-key');
+		// /v1/messages 的认证错误同样按 Anthropic 的格式返回
+		const anthropic = new URL(request.url).pathname.endsWith('/messages');
+		if (!clientKey) {
+			if (anthropic) {
+				return anthropicErrorResponse(401, 'x-api-key header is required');
+			}
 			return new Response('No API key found in the client headers,please check your request!', { status: 400 });
 		}
 
-		if (authKey && !this.env.FORWARD_CLIENT_KEY_ENABLED) {
-			const authHeader = request.headers.get('Authorization');
-			const token = authHeader?.replace('Bearer ', '');
-			if (token !== authKey) {
-				return new Response('Unauthorized', { status: 401, headers: fixCors({}).headers });
-			}
-			apiKey = await this.getNextApiKeyInRotation();
-			if (!apiKey) {
-				return new Response('No API keys configured in the load balancer.', { status: 500 });
+		const useLoadBalancing = !this.env.FORWARD_CLIENT_KEY_ENABLED && this.isClientAuthRequired();
+		const authenticated = useLoadBalancing ? await this.authenticateProxyRequest(request, clientKey) : null;
+		if (authenticated instanceof Response) {
+			if (!anthropic) {
+				return authenticated;
 			}
+			const text = await authenticated.text();
+			let message = text;
+			try {
+				message = JSON.parse(text).error ?? text;
+			} catch {}
+			const retryAfter = authenticated.headers.get('Retry-After');
+			return anthropicErrorResponse(authenticated.status, message, retryAfter ? { 'Retry-After': retryAfter } : undefined);
 		}
+		const caller = authenticated;
+
+		// 在选择 Gemini 密钥之前依次检查模型策略和调用方限额，被模型策略拒绝的请求不计入限额
+		const policy = this.getModelPolicy(caller);
+		let limitStatuses: ClientLimitStatus[] = [];
+		const admit = (model?: string, format: ErrorFormat = 'openai'): Response | null => {
+			if (model && !this.isModelAllowed(policy, model)) {
+				return this.modelNotAllowedResponse(model, format);
+			}
+			if (caller) {
+				const check = this.checkClientLimits(caller);
+				if (check.exceeded.length > 0) {
+					return this.clientRateLimitResponse(caller, check, format);
+				}
+				limitStatuses = check.statuses;
+			}
+			return null;
+		};
+		const onTokens = caller ? (tokens: number) => this.recordClientTokens(caller, tokens) : undefined;
+
+		// 负载均衡模式下由 fetchWithKeyFailover 选择密钥并在失败时切换，否则直接透传客户端的 key
+		const dispatch = async (send: (apiKey: string) => Promise<Response>, selection?: KeySelectionOptions) => {
+			if (!useLoadBalancing) {
+				return send(clientKey);
+			}
+			const response = await this.fetchWithKeyFailover(send, selection);
+			return this.withRateLimitHeaders(response ?? new Response('No API keys configured in the load balancer.', { status: 500 }), limitStatuses);
+		};
 
 		const url = new URL(request.url);
 		const pathname = url.pathname;
@@ -1225,23 +5625,225 @@ async getAllApiKeys(): Promise<Response> {
 				throw new HttpError('The specified HTTP method is not allowed for the requested resource', 400);
 			}
 		};
+		// 请求体无法解析属于客户端错误，返回 400 而不是 500
+		const readJson = async (): Promise<any> => {
+			try {
+				return await request.json();
+			} catch (err) {
+				throw new HttpError(`Invalid JSON in request body: ${(err as Error).message}`, 400);
+			}
+		};
+		const readForm = async () => {
+			try {
+				return await request.formData();
+			} catch (err) {
+				throw new HttpError(`Invalid multipart form data in request body: ${(err as Error).message}`, 400);
+			}
+		};
 		const errHandler = (err: Error) => {
 			console.error(err);
-			return new Response(err.message, fixCors({ statusText: err.message ?? 'Internal Server Error', status: 500 }));
+			if (err instanceof QuotaExhaustedError) {
+				return new Response(JSON.stringify({ error: { message: err.message, type: 'rate_limit_exceeded', code: 'quota_exhausted' } }), {
+					status: 429,
+					headers: fixCors({ headers: { 'Content-Type': 'application/json', 'Retry-After': String(err.retryAfter) } }).headers,
+				});
+			}
+			// 请求参数错误按 OpenAI 的格式返回，客户端 SDK 才能给出明确的错误信息
+			if (err instanceof HttpError && err.status < 500) {
+				return new Response(JSON.stringify({ error: { message: err.message, type: 'invalid_request_error', param: null, code: null } }), {
+					status: err.status,
+					headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers,
+				});
+			}
+			return new Response(
+				err.message,
+				fixCors({ statusText: err.message ?? 'Internal Server Error', status: err instanceof HttpError ? err.status : 500 })
+			);
 		};
 
-		switch (true) {
-			case pathname.endsWith('/chat/completions'):
-				assert(request.method === 'POST');
-				return this.handleCompletions(await request.json(), apiKey).catch(errHandler);
-			case pathname.endsWith('/embeddings'):
-				assert(request.method === 'POST');
-				return this.handleEmbeddings(await request.json(), apiKey).catch(errHandler);
-			case pathname.endsWith('/models'):
-				assert(request.method === 'GET');
-				return this.handleModels(apiKey).catch(errHandler);
-			default:
-				throw new HttpError('404 Not Found', 404);
+		const anthropicErrHandler = (err: Error) => {
+			console.error(err);
+			if (err instanceof QuotaExhaustedError) {
+				return anthropicErrorResponse(429, err.message, { 'Retry-After': String(err.retryAfter) });
+			}
+			return anthropicErrorResponse(err instanceof HttpError ? err.status : 500, err.message || 'Internal Server Error');
+		};
+
+		// 方法不匹配或请求体不是合法 JSON 时同样转换为错误响应
+		try {
+			switch (true) {
+				case pathname.endsWith('/chat/completions'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveCompletionsModel(req, policy.default_chat_model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleCompletions(req, apiKey, model, onTokens), {
+									route: 'chat',
+									model: model.replace(/:search$/, ''),
+									affinity: resolveKeyAffinity(request, req.extra_body?.google?.cached_content),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/completions'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveCompletionsModel(req, policy.default_chat_model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleTextCompletions(req, apiKey, model, onTokens), {
+									route: 'chat',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/messages'):
+					// 方法和请求体同样在这里校验，错误才能按 Anthropic 的格式返回
+					return Promise.resolve()
+						.then(async () => {
+							assert(request.method === 'POST');
+							const req = await readJson();
+							const model = this.resolveCompletionsModel(req, policy.default_chat_model);
+							return (
+								admit(model, 'anthropic') ??
+								dispatch((apiKey) => this.handleAnthropicMessages(req, apiKey, model, onTokens), {
+									route: 'chat',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(anthropicErrHandler);
+				case pathname.endsWith('/images/generations'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveImageModel(req.model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleImages(req, apiKey, model, onTokens), {
+									route: 'images',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/images/edits'): {
+					assert(request.method === 'POST');
+					const form = await readForm();
+					return this.parseImageEditForm(form)
+						.then((req) => {
+							const model = this.resolveImageModel(req.model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleImages(req, apiKey, model, onTokens), {
+									route: 'images',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/audio/transcriptions'):
+				case pathname.endsWith('/audio/translations'): {
+					assert(request.method === 'POST');
+					const form = await readForm();
+					const task = pathname.endsWith('/translations') ? 'translate' : 'transcribe';
+					return this.parseAudioForm(form)
+						.then((req) => {
+							const model = this.resolveCompletionsModel(req, policy.default_chat_model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleTranscriptions(req, task, apiKey, model, onTokens), {
+									route: 'chat',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/audio/speech'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveSpeechModel(req.model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleSpeech(req, apiKey, model, onTokens), {
+									route: 'chat',
+									model,
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/responses'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveCompletionsModel(req, policy.default_chat_model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleResponses(req, apiKey, model, onTokens), {
+									route: 'chat',
+									model: model.replace(/:search$/, ''),
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/embeddings'): {
+					assert(request.method === 'POST');
+					const req = await readJson();
+					return Promise.resolve()
+						.then(() => {
+							const model = this.resolveEmbeddingsModel(req, policy.default_embedding_model);
+							return (
+								admit(model) ??
+								dispatch((apiKey) => this.handleEmbeddings(req, apiKey, model), {
+									route: 'embeddings',
+									model: model.substring(7),
+									affinity: resolveKeyAffinity(request),
+								})
+							);
+						})
+						.catch(errHandler);
+				}
+				case pathname.endsWith('/models'):
+					assert(request.method === 'GET');
+					return (
+						admit() ??
+						dispatch((apiKey) => this.handleModels(apiKey, (model) => this.isModelAllowed(policy, model)), { route: 'models' }).catch(errHandler)
+					);
+				default:
+					await request.arrayBuffer();
+					return new Response(
+						JSON.stringify({
+							error: { message: `Invalid URL (${request.method} ${pathname})`, type: 'invalid_request_error', param: null, code: 'unknown_url' },
+						}),
+						{ status: 404, headers: fixCors({ headers: { 'Content-Type': 'application/json' } }).headers }
+					);
+			}
+		} catch (err) {
+			return errHandler(err as Error);
 		}
 	}
 }
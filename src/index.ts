@@ -1,31 +1,65 @@
 import { Hono } from 'hono';
 import { Render } from './render';
 import { LoadBalancer } from './handler';
-import { getAuthKey } from './auth';
-import { getCookie, setCookie } from 'hono/cookie';
+import { CSRF_HEADER, getSessionToken, SESSION_COOKIE, timingSafeEqual } from './auth';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
 
 const app = new Hono<{ Bindings: Env }>();
 
-// 管理页面访问，校验 HOME_ACCESS_KEY
-app.get('/', (c) => {
-	const sessionKey = getCookie(c, 'auth-key');
-	const authKey = getAuthKey(c.req.raw, sessionKey);
-	if (authKey !== c.env.HOME_ACCESS_KEY) {
+const getLoadBalancer = (env: Env) => {
+	const id: DurableObjectId = env.LOAD_BALANCER.idFromName('loadbalancer');
+	return env.LOAD_BALANCER.get(id, { locationHint: 'wnam' });
+};
+
+// 管理页面访问，校验会话 cookie
+app.get('/', async (c) => {
+	const token = getCookie(c, SESSION_COOKIE);
+	const session = token ? await getLoadBalancer(c.env).getAdminSession(token) : null;
+	if (!session) {
 		return c.html(Render({ isAuthenticated: false, showWarning: false }));
 	}
 	const showWarning =
 		c.env.HOME_ACCESS_KEY === '7b18e536c27ab304266db3220b8e000db8fbbe35d6e1fde729a1a1d47303858d' || c.env.AUTH_KEY === 'ajielu';
-	return c.html(Render({ isAuthenticated: true, showWarning }));
+	return c.html(Render({ isAuthenticated: true, showWarning, csrfToken: session.csrf_token, role: session.role }));
 });
 
-// 登录接口，校验 HOME_ACCESS_KEY，登录成功后写入 cookie
+// 登录接口，由 Durable Object 校验 HOME_ACCESS_KEY 并按 IP 限制失败次数，登录成功后签发会话令牌写入 cookie；
+// 脚本可以直接使用返回的 token 作为 Bearer 令牌
 app.post('/', async (c) => {
 	const { key } = await c.req.json();
-	if (key === c.env.HOME_ACCESS_KEY) {
-		setCookie(c, 'auth-key', key, { maxAge: 60 * 60 * 24 * 30, path: '/' });
-		return c.json({ success: true });
+	const result = await getLoadBalancer(c.env).adminLogin(key, c.req.header('CF-Connecting-IP') ?? 'unknown');
+	if (result.status === 'locked') {
+		c.header('Retry-After', String(result.retry_after));
+		return c.json({ success: false, retry_after: result.retry_after }, 429);
+	}
+	if (result.status === 'invalid') {
+		return c.json({ success: false }, 401);
+	}
+	const { session } = result;
+	setCookie(c, SESSION_COOKIE, session.token, {
+		path: '/',
+		httpOnly: true,
+		secure: true,
+		sameSite: 'Strict',
+		expires: new Date(session.expires_at * 1000),
+	});
+	return c.json({ success: true, ...session });
+});
+
+// 注销当前会话，之后该会话令牌立即失效
+app.post('/logout', async (c) => {
+	const presented = getSessionToken(c.req.raw);
+	const loadBalancer = getLoadBalancer(c.env);
+	const session = presented ? await loadBalancer.getAdminSession(presented.token) : null;
+	if (!session) {
+		return c.json({ success: false }, 401);
+	}
+	if (presented!.source === 'cookie' && !timingSafeEqual(c.req.header(CSRF_HEADER) ?? '', session.csrf_token)) {
+		return c.json({ success: false, error: 'CSRF 校验失败，请刷新页面后重试。' }, 403);
 	}
-	return c.json({ success: false }, 401);
+	await loadBalancer.revokeAdminSession(session.id, c.req.header('CF-Connecting-IP') ?? 'unknown');
+	deleteCookie(c, SESSION_COOKIE, { path: '/', secure: true });
+	return c.json({ success: true });
 });
 
 // 静态资源放行
@@ -35,9 +69,7 @@ app.get('/favicon.ico', async (c) => {
 
 // 其它请求转发到 Durable Object
 app.all('*', async (c) => {
-	const id: DurableObjectId = c.env.LOAD_BALANCER.idFromName('loadbalancer');
-	const stub = c.env.LOAD_BALANCER.get(id, { locationHint: 'wnam' });
-	const resp = await stub.fetch(c.req.raw);
+	const resp = await getLoadBalancer(c.env).fetch(c.req.raw);
 	return new Response(resp.body, {
 		status: resp.status,
 		headers: resp.headers,
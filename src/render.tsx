@@ -1,6 +1,17 @@
 import { jsx } from 'hono/jsx';
+import { AdminRole } from './auth';
 
-export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: boolean; showWarning: boolean }) => {
+export const Render = ({
+	isAuthenticated,
+	showWarning,
+	csrfToken,
+	role = 'admin',
+}: {
+	isAuthenticated: boolean;
+	showWarning: boolean;
+	csrfToken?: string;
+	role?: AdminRole;
+}) => {
 	if (!isAuthenticated) {
 		return (
 			<html>
@@ -47,6 +58,9 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
                                     });
                                     if (response.ok) {
                                         window.location.reload();
+                                    } else if (response.status === 429) {
+                                        const { retry_after } = await response.json();
+                                        alert(\`登录失败次数过多，请在 \${retry_after} 秒后重试\`);
                                     } else {
                                         alert('登录失败');
                                     }
@@ -65,10 +79,13 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 				<meta charset="UTF-8" />
 				<meta name="viewport" content="width=device-width, initial-scale=1.0" />
 				<title>Gemini API 密钥管理</title>
+				<meta name="csrf-token" content={csrfToken} />
 				<script src="https://cdn.tailwindcss.com"></script>
+				{/* 只读账号隐藏所有修改类控件，服务端同样会拒绝这些请求 */}
+				{role === 'readonly' && <style>{'.admin-only { display: none !important; }'}</style>}
 				<script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
 			</head>
-			<body class="bg-gray-100">
+			<body class="bg-gray-100" data-role={role}>
 				{showWarning && (
 					<div class="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-3 mb-4" role="alert">
 						<strong class="font-bold">安全警告：</strong>
@@ -80,16 +97,20 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 				<div class="flex h-screen">
 					<div class="w-64 bg-gray-800 text-white p-4">
 						<h1 class="text-2xl font-bold mb-8">管理面板</h1>
+						{role === 'readonly' && <p class="mb-4 px-4 text-sm text-gray-400">只读账号，仅可查看</p>}
 						<nav>
 							<a href="#" class="block py-2 px-4 rounded bg-gray-700">
 								密钥管理
 							</a>
+							<a href="#" id="logout-btn" class="block py-2 px-4 mt-2 rounded hover:bg-gray-700">
+								退出登录
+							</a>
 						</nav>
 					</div>
 					<div class="flex-1 p-8">
 						<h2 class="text-3xl font-bold mb-6">Gemini API 密钥管理</h2>
 						<div class="grid grid-cols-1 md:grid-cols-2 gap-8">
-							<div class="bg-white p-6 rounded-lg shadow-md">
+							<div class="admin-only bg-white p-6 rounded-lg shadow-md">
 								<h3 class="text-xl font-semibold mb-4">批量添加密钥</h3>
 								<form id="add-keys-form">
 									<textarea
@@ -97,50 +118,106 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 										class="w-full h-40 p-2 border rounded bg-gray-50"
 										placeholder="请输入API密钥，每行一个"
 									></textarea>
-									<button type="submit" class="mt-4 w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
-										添加密钥
-									</button>
+									<input
+										id="api-keys-pool"
+										list="pool-options"
+										class="w-full mt-2 p-2 border rounded bg-gray-50"
+										placeholder="密钥池（默认 default）"
+									/>
+									<datalist id="pool-options"></datalist>
+									<label class="flex items-center mt-2 text-gray-700">
+										<input id="api-keys-probe" type="checkbox" class="mr-2" />
+										导入前向 Gemini 检测密钥有效性
+									</label>
+									<div class="mt-4 grid grid-cols-2 gap-2">
+										<button
+											type="button"
+											id="preview-keys-btn"
+											class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+										>
+											预览
+										</button>
+										<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+											添加密钥
+										</button>
+									</div>
 								</form>
+								<div id="import-preview" class="mt-4 hidden">
+									<p id="import-preview-summary" class="mb-2 text-sm text-gray-700"></p>
+									<div class="max-h-60 overflow-y-auto">
+										<table class="w-full text-left text-sm">
+											<thead>
+												<tr class="border-b">
+													<th class="p-2">API 密钥</th>
+													<th class="p-2">结果</th>
+													<th class="p-2">原因</th>
+												</tr>
+											</thead>
+											<tbody id="import-preview-body"></tbody>
+										</table>
+									</div>
+								</div>
 							</div>
 							<div class="bg-white p-6 rounded-lg shadow-md">
 								<div class="flex justify-between items-center mb-4">
 									<h3 class="text-xl font-semibold">已存储的密钥</h3>
 									<div>
-										<button id="check-keys-btn" class="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition mr-2">
+										<button id="check-keys-btn" class="admin-only px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition mr-2">
 											一键检查
 										</button>
-										<button id="delete-all-keys-btn" class="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition mr-2">
+										<button id="purge-disabled-keys-btn" class="admin-only px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 transition mr-2">
+											清除已禁用
+										</button>
+										<button id="delete-all-keys-btn" class="admin-only px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition mr-2">
 											一键删除所有
 										</button>
 										<button id="refresh-keys-btn" class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition mr-2">
 											刷新
 										</button>
-										<button id="test-next-key-btn" class="px-4 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 transition">
+										<button id="test-next-key-btn" class="admin-only px-4 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 transition">
 											测试轮询
 										</button>
 									</div>
 								</div>
+								<div class="flex items-center mb-4">
+									<label for="strategy-select" class="mr-2 text-gray-700">选择策略</label>
+									<select id="strategy-select" class="p-2 border rounded bg-gray-50" disabled={role === 'readonly'}>
+										<option value="round_robin">轮询</option>
+										<option value="random">随机</option>
+										<option value="least_recently_used">最久未使用</option>
+										<option value="least_calls_last_minute">最近1分钟调用最少</option>
+										<option value="weighted">按权重</option>
+									</select>
+								</div>
 								<div class="max-h-60 overflow-y-auto">
 									<table id="keys-table" class="w-full text-left">
 										<thead>
 											<tr class="border-b">
-												<th class="p-2 w-6">
+												<th class="admin-only p-2 w-6">
 													<input type="checkbox" id="select-all-keys" />
 												</th>
 												<th class="p-2">API 密钥</th>
 												<th class="p-2">状态</th>
+												<th class="p-2">健康状态</th>
+												<th class="p-2">密钥池</th>
+												<th class="p-2">权重</th>
 												<th class="p-2">总调用次数</th>
 											</tr>
 										</thead>
 										<tbody></tbody>
 									</table>
 								</div>
-								<button
-									id="delete-selected-keys-btn"
-									class="mt-4 w-full px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition hidden"
-								>
-									删除选中
-								</button>
+								<div id="selected-keys-actions" class="admin-only mt-4 grid grid-cols-3 gap-2 hidden">
+									<button id="enable-selected-keys-btn" class="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition">
+										启用选中
+									</button>
+									<button id="disable-selected-keys-btn" class="px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 transition">
+										禁用选中
+									</button>
+									<button id="delete-selected-keys-btn" class="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition">
+										删除选中
+									</button>
+								</div>
 							</div>
 						</div>
 						<div class="grid grid-cols-1 md:grid-cols-2 gap-8 mt-8">
@@ -153,13 +230,268 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 								<canvas id="twenty-four-hour-chart"></canvas>
 							</div>
 						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">模型配额（单个密钥）</h3>
+							<form id="quota-form" class="admin-only flex flex-wrap items-center gap-2 mb-4">
+								<input id="quota-model" class="p-2 border rounded bg-gray-50" placeholder="模型，如 gemini-2.5-pro 或 *" />
+								<input id="quota-rpm" type="number" min="0" class="w-28 p-2 border rounded bg-gray-50" placeholder="RPM" />
+								<input id="quota-rpd" type="number" min="0" class="w-28 p-2 border rounded bg-gray-50" placeholder="RPD" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									保存配额
+								</button>
+							</form>
+							<table id="quotas-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">模型</th>
+										<th class="p-2">RPM</th>
+										<th class="p-2">RPD</th>
+										<th class="p-2">最近1分钟调用</th>
+										<th class="p-2">今日调用</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+							<p id="quota-reset" class="mt-2 text-sm text-gray-500"></p>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">密钥池路由规则</h3>
+							<p id="pools-summary" class="mb-4 text-sm text-gray-600"></p>
+							<form id="rule-form" class="admin-only flex flex-wrap items-center gap-2 mb-4">
+								<select id="rule-endpoint" class="p-2 border rounded bg-gray-50">
+									<option value="*">所有请求</option>
+									<option value="chat">对话</option>
+									<option value="embeddings">嵌入</option>
+									<option value="images">图片生成</option>
+									<option value="models">模型列表</option>
+									<option value="other">其它原生接口</option>
+								</select>
+								<input id="rule-model" class="p-2 border rounded bg-gray-50" placeholder="模型匹配，如 gemini-2.5-pro*" value="*" />
+								<input id="rule-pool" list="pool-options" class="p-2 border rounded bg-gray-50" placeholder="使用的密钥池" />
+								<input id="rule-priority" type="number" class="w-24 p-2 border rounded bg-gray-50" placeholder="优先级" value="0" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									添加规则
+								</button>
+							</form>
+							<table id="rules-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">优先级</th>
+										<th class="p-2">请求类型</th>
+										<th class="p-2">模型</th>
+										<th class="p-2">密钥池</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">客户端密钥</h3>
+							<p id="client-keys-summary" class="mb-4 text-sm text-gray-600"></p>
+							<form id="client-key-form" class="admin-only flex flex-wrap items-center gap-2 mb-4">
+								<input id="client-key-name" class="p-2 border rounded bg-gray-50" placeholder="名称，如 团队或应用名" />
+								<input id="client-key-expires" type="number" min="1" class="w-36 p-2 border rounded bg-gray-50" placeholder="有效天数（可选）" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									签发密钥
+								</button>
+							</form>
+							<table id="client-keys-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">名称</th>
+										<th class="p-2">密钥</th>
+										<th class="p-2">状态</th>
+										<th class="p-2">过期时间</th>
+										<th class="p-2">最近使用</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">调用方限额</h3>
+							<form id="client-limit-form" class="admin-only flex flex-wrap items-center gap-2 mb-4">
+								<select id="client-limit-client" class="client-subject-select p-2 border rounded bg-gray-50"></select>
+								<input id="client-limit-sub-client" class="w-36 p-2 border rounded bg-gray-50" placeholder="X-Client-Id（可选）" />
+								<input id="client-limit-rpm" type="number" min="0" class="w-24 p-2 border rounded bg-gray-50" placeholder="RPM" />
+								<input id="client-limit-rpd" type="number" min="0" class="w-24 p-2 border rounded bg-gray-50" placeholder="RPD" />
+								<input id="client-limit-daily-tokens" type="number" min="0" class="w-32 p-2 border rounded bg-gray-50" placeholder="每日 token" />
+								<input id="client-limit-monthly-tokens" type="number" min="0" class="w-32 p-2 border rounded bg-gray-50" placeholder="每月 token" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									保存限额
+								</button>
+							</form>
+							<table id="client-limits-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">调用方</th>
+										<th class="p-2">RPM</th>
+										<th class="p-2">RPD</th>
+										<th class="p-2">每日 token</th>
+										<th class="p-2">每月 token</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+							<h4 class="font-semibold mt-6 mb-2">调用方用量（UTC 自然日 / 自然月）</h4>
+							<table id="client-usage-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">客户端密钥</th>
+										<th class="p-2">X-Client-Id</th>
+										<th class="p-2">最近1分钟请求</th>
+										<th class="p-2">今日请求</th>
+										<th class="p-2">今日 token</th>
+										<th class="p-2">本月 token</th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">模型策略</h3>
+							<p id="model-policy-defaults" class="mb-4 text-sm text-gray-600"></p>
+							<form id="model-policy-form" class="admin-only flex flex-wrap items-center gap-2 mb-4">
+								<select id="model-policy-subject" class="client-subject-select p-2 border rounded bg-gray-50"></select>
+								<input id="model-policy-allowed" class="flex-1 p-2 border rounded bg-gray-50" placeholder="允许的模型，逗号分隔，支持 *，留空不限制" />
+								<input id="model-policy-chat" class="p-2 border rounded bg-gray-50" placeholder="默认对话模型（可选）" />
+								<input id="model-policy-embedding" class="p-2 border rounded bg-gray-50" placeholder="默认嵌入模型（可选）" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									保存策略
+								</button>
+							</form>
+							<table id="model-policies-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">调用方</th>
+										<th class="p-2">允许的模型</th>
+										<th class="p-2">默认对话模型</th>
+										<th class="p-2">默认嵌入模型</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">定时健康检查</h3>
+							<form id="health-check-form" class="admin-only flex flex-wrap items-center gap-4 mb-4">
+								<label class="flex items-center">
+									<input id="health-check-enabled" type="checkbox" class="mr-2" />
+									启用
+								</label>
+								<label class="flex items-center">
+									每
+									<input id="health-check-interval" type="number" min="1" class="w-20 mx-2 p-2 border rounded bg-gray-50" />
+									分钟检查一次
+								</label>
+								<label class="flex items-center">
+									并发数
+									<input id="health-check-concurrency" type="number" min="1" max="50" class="w-20 ml-2 p-2 border rounded bg-gray-50" />
+								</label>
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									保存计划
+								</button>
+							</form>
+							<p id="health-check-next" class="text-sm text-gray-600"></p>
+							<p id="health-check-last" class="text-sm text-gray-600"></p>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<div class="flex justify-between items-center mb-4">
+								<h3 class="text-xl font-semibold">认证失败</h3>
+								<button id="refresh-auth-failures-btn" class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition">
+									刷新
+								</button>
+							</div>
+							<table id="auth-lockouts-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">IP</th>
+										<th class="p-2">类型</th>
+										<th class="p-2">连续失败</th>
+										<th class="p-2">锁定次数</th>
+										<th class="p-2">状态</th>
+										<th class="p-2">最近失败</th>
+										<th class="p-2"></th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+							<h4 class="font-semibold mt-6 mb-2">最近的失败记录</h4>
+							<table id="auth-failures-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">时间</th>
+										<th class="p-2">类型</th>
+										<th class="p-2">IP</th>
+										<th class="p-2">路径</th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+						</div>
+						<div class="bg-white p-6 rounded-lg shadow-md mt-8">
+							<h3 class="text-xl font-semibold mb-4">审计日志</h3>
+							<form id="audit-filter-form" class="flex flex-wrap items-center gap-2 mb-4">
+								<select id="audit-action" class="p-2 border rounded bg-gray-50">
+									<option value="">全部操作</option>
+								</select>
+								<input id="audit-fingerprint" class="p-2 border rounded bg-gray-50" placeholder="密钥指纹或对象 id（可选）" />
+								<input id="audit-actor" class="w-36 p-2 border rounded bg-gray-50" placeholder="来源 IP（可选）" />
+								<button type="submit" class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition">
+									查询
+								</button>
+							</form>
+							<table id="audit-table" class="w-full text-left">
+								<thead>
+									<tr class="border-b">
+										<th class="p-2">时间</th>
+										<th class="p-2">操作</th>
+										<th class="p-2">对象</th>
+										<th class="p-2">来源 IP</th>
+										<th class="p-2">会话</th>
+										<th class="p-2">详情</th>
+									</tr>
+								</thead>
+								<tbody></tbody>
+							</table>
+							<button id="audit-more-btn" class="hidden mt-4 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition">
+								加载更多
+							</button>
+						</div>
 					</div>
 				</div>
 
 				<script
 					dangerouslySetInnerHTML={{
 						__html: `
+								const readOnly = document.body.dataset.role === 'readonly';
+
+								// 修改类请求自动带上 CSRF 令牌；会话失效时回到登录页，避免定时刷新反复触发认证失败
+								const csrfToken = document.querySelector('meta[name="csrf-token"]').content;
+								const originalFetch = window.fetch.bind(window);
+								window.fetch = async (input, init = {}) => {
+									if (init.method && init.method !== 'GET') {
+										init = { ...init, headers: { ...init.headers, 'X-CSRF-Token': csrfToken } };
+									}
+									const response = await originalFetch(input, init);
+									if (response.status === 401 && input !== '/logout') {
+										window.location.reload();
+									}
+									return response;
+								};
+
 								document.addEventListener('DOMContentLoaded', () => {
+										document.getElementById('logout-btn').addEventListener('click', async (e) => {
+											e.preventDefault();
+											await fetch('/logout', { method: 'POST' });
+											window.location.reload();
+										});
+
 										const addKeysForm = document.getElementById('add-keys-form');
 										const apiKeysTextarea = document.getElementById('api-keys');
 										const refreshKeysBtn = document.getElementById('refresh-keys-btn');
@@ -167,11 +499,53 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 										const selectAllCheckbox = document.getElementById('select-all-keys');
 										const deleteSelectedBtn = document.getElementById('delete-selected-keys-btn');
 										const checkKeysBtn = document.getElementById('check-keys-btn');
+										const strategySelect = document.getElementById('strategy-select');
 										const deleteAllKeysBtn = document.getElementById('delete-all-keys-btn');
 										let oneMinuteChart, twentyFourHourChart;
 
+										const checkCategoryLabels = {
+											ok: '有效',
+											invalid_key: '密钥无效',
+											permission_denied: '无权限',
+											quota_exhausted: '配额耗尽',
+											region_blocked: '地区受限',
+											network_error: '网络错误',
+											upstream_error: '上游错误',
+										};
+
+										// 根据熔断状态渲染健康状态单元格，悬停可查看最近一次错误
+										const renderHealthCell = (cell, keyObj) => {
+											const now = Math.floor(Date.now() / 1000);
+											let text = '正常';
+											let color = 'text-green-500';
+											if (keyObj.status === 'disabled') {
+												cell.textContent = \`已禁用（\${checkCategoryLabels[keyObj.disabled_reason] || keyObj.disabled_reason || '手动'}）\`;
+												cell.className = 'p-2 health-cell text-gray-400';
+												cell.title = keyObj.disabled_at ? '禁用于 ' + new Date(keyObj.disabled_at * 1000).toLocaleString() : '';
+												return;
+											}
+											if (keyObj.status === 'half_open') {
+												text = '探测中';
+												color = 'text-yellow-500';
+											} else if (keyObj.status === 'cooldown' && keyObj.cooldown_until > now) {
+												text = \`冷却中 (\${keyObj.cooldown_until - now}s)\`;
+												color = 'text-red-500';
+											} else if (keyObj.status === 'cooldown') {
+												text = '待探测';
+												color = 'text-yellow-500';
+											}
+											if (keyObj.consecutive_failures > 0) {
+												text += \` · 连续失败 \${keyObj.consecutive_failures} 次\`;
+											}
+											cell.textContent = text;
+											cell.className = 'p-2 health-cell ' + color;
+											cell.title = keyObj.last_error
+												? \`\${new Date(keyObj.last_error_at * 1000).toLocaleString()}: \${keyObj.last_error}\`
+												: '';
+										};
+
 										const renderCharts = (stats) => {
-											const labels = stats.map(s => s.api_key.substring(0, 8) + '...');
+											const labels = stats.map(s => s.fingerprint);
 											const oneMinuteData = stats.map(s => s.one_minute_calls);
 											const twentyFourHourData = stats.map(s => s.twenty_four_hour_calls);
 
@@ -213,10 +587,12 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 												const response = await fetch('/api/keys/stats');
 												const stats = await response.json();
 												stats.forEach(stat => {
-													const row = keysTableBody.querySelector(\`tr[data-key="\${stat.api_key}"]\`);
+													const row = keysTableBody.querySelector(\`tr[data-key="\${stat.fingerprint}"]\`);
 													if (row) {
 														const totalCallsCell = row.querySelector('.total-calls-cell');
 														if (totalCallsCell) totalCallsCell.textContent = stat.total_calls;
+														const healthCell = row.querySelector('.health-cell');
+														if (healthCell) renderHealthCell(healthCell, stat);
 													}
 												});
 												renderCharts(stats);
@@ -226,42 +602,197 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 										};
 
 										const fetchAndRenderKeys = async () => {
-												keysTableBody.innerHTML = '<tr><td colspan="4" class="p-2 text-center">加载中...</td></tr>';
+												keysTableBody.innerHTML = '<tr><td colspan="7" class="p-2 text-center">加载中...</td></tr>';
 												try {
 												  const response = await fetch('/api/keys');
 												  const { keys } = await response.json();
 												  keysTableBody.innerHTML = '';
 												  if (keys.length === 0) {
-												    keysTableBody.innerHTML = '<tr><td colspan="4" class="p-2 text-center">暂无密钥</td></tr>';
+												    keysTableBody.innerHTML = '<tr><td colspan="7" class="p-2 text-center">暂无密钥</td></tr>';
 												  } else {
 												    keys.forEach(keyObj => {
 												      const row = document.createElement('tr');
-															row.dataset.key = keyObj.api_key;
+															row.dataset.key = keyObj.fingerprint;
 												      row.innerHTML = \`
-												        <td class="p-2 w-6"><input type="checkbox" class="key-checkbox" data-key="\${keyObj.api_key}" /></td>
-												        <td class="p-2 font-mono">\${keyObj.api_key}</td>
+												        <td class="admin-only p-2 w-6"><input type="checkbox" class="key-checkbox" data-key="\${keyObj.fingerprint}" /></td>
+												        <td class="p-2 font-mono">
+												          \${keyObj.masked_key ?? ''} <span class="text-xs text-gray-500">\${keyObj.fingerprint}</span>
+												          <button class="admin-only reveal-key-btn text-xs text-blue-500 hover:underline" data-key="\${keyObj.fingerprint}">查看</button>
+												        </td>
 												        <td class="p-2 status-cell">未知</td>
+												        <td class="p-2 health-cell"></td>
+												        <td class="p-2"><input list="pool-options" class="pool-input w-24 p-1 border rounded" data-key="\${keyObj.fingerprint}" \${readOnly ? 'disabled' : ''} /></td>
+												        <td class="p-2"><input type="number" min="0" class="weight-input w-16 p-1 border rounded" data-key="\${keyObj.fingerprint}" value="\${keyObj.weight ?? 1}" \${readOnly ? 'disabled' : ''} /></td>
 												        <td class="p-2 total-calls-cell">\${keyObj.total_calls ?? 0}</td>
 												      \`;
+												      // 池名称可以是任意字符串，不能拼接进 HTML
+												      row.querySelector('.pool-input').value = keyObj.pool;
+												      renderHealthCell(row.querySelector('.health-cell'), keyObj);
 												      keysTableBody.appendChild(row);
 												    });
 														fetchAndRenderStats();
 												  }
 												} catch (error) {
-												  keysTableBody.innerHTML = '<tr><td colspan="4" class="p-2 text-center text-red-500">加载失败</td></tr>';
+												  keysTableBody.innerHTML = '<tr><td colspan="7" class="p-2 text-center text-red-500">加载失败</td></tr>';
 												  console.error('Failed to fetch keys:', error);
 												}
 										};
 
 										const updateDeleteButtonVisibility = () => {
 												const selectedKeys = document.querySelectorAll('.key-checkbox:checked');
-												deleteSelectedBtn.classList.toggle('hidden', selectedKeys.length === 0);
+												document.getElementById('selected-keys-actions').classList.toggle('hidden', selectedKeys.length === 0);
 										};
 
-										keysTableBody.addEventListener('change', (e) => {
+										const setSelectedKeysEnabled = async (enabled) => {
+											const selectedKeys = Array.from(document.querySelectorAll('.key-checkbox:checked')).map(cb => cb.dataset.key);
+											if (selectedKeys.length === 0) {
+												alert('请至少选择一个密钥。');
+												return;
+											}
+											try {
+												const response = await fetch(enabled ? '/api/keys/enable' : '/api/keys/disable', {
+													method: 'POST',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ keys: selectedKeys }),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													fetchAndRenderKeys();
+													updateDeleteButtonVisibility();
+													selectAllCheckbox.checked = false;
+												} else {
+													alert(\`操作失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to update keys:', error);
+											}
+										};
+
+										document.getElementById('enable-selected-keys-btn').addEventListener('click', () => setSelectedKeysEnabled(true));
+										document.getElementById('disable-selected-keys-btn').addEventListener('click', () => setSelectedKeysEnabled(false));
+
+										document.getElementById('purge-disabled-keys-btn').addEventListener('click', async () => {
+											if (!confirm('确定要永久删除所有已禁用的密钥吗？此操作不可撤销。')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/keys/disabled', { method: 'DELETE' });
+												const result = await response.json();
+												if (response.ok) {
+													alert(result.message);
+													fetchAndRenderKeys();
+												} else {
+													alert(\`清除失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to purge disabled keys:', error);
+											}
+										});
+
+										keysTableBody.addEventListener('change', async (e) => {
 												if (e.target.classList.contains('key-checkbox')) {
 												  updateDeleteButtonVisibility();
 												}
+												if (e.target.classList.contains('pool-input')) {
+												  const pool = e.target.value.trim();
+												  if (!pool) {
+												    alert('密钥池不能为空。');
+												    return;
+												  }
+												  try {
+												    const response = await fetch('/api/keys/pool', {
+												      method: 'PUT',
+												      headers: { 'Content-Type': 'application/json' },
+												      body: JSON.stringify({ keys: [e.target.dataset.key], pool }),
+												    });
+												    if (response.ok) {
+												      fetchAndRenderPools();
+												    } else {
+												      const result = await response.json();
+												      alert(\`更新密钥池失败: \${result.error || '未知错误'}\`);
+												    }
+												  } catch (error) {
+												    alert('请求失败，请检查网络连接。');
+												    console.error('Failed to update pool:', error);
+												  }
+												}
+												if (e.target.classList.contains('weight-input')) {
+												  const weight = parseInt(e.target.value, 10);
+												  if (Number.isNaN(weight) || weight < 0) {
+												    alert('权重必须是非负整数。');
+												    return;
+												  }
+												  try {
+												    const response = await fetch('/api/keys/weight', {
+												      method: 'PUT',
+												      headers: { 'Content-Type': 'application/json' },
+												      body: JSON.stringify({ keys: [e.target.dataset.key], weight }),
+												    });
+												    if (!response.ok) {
+												      const result = await response.json();
+												      alert(\`更新权重失败: \${result.error || '未知错误'}\`);
+												    }
+												  } catch (error) {
+												    alert('请求失败，请检查网络连接。');
+												    console.error('Failed to update weight:', error);
+												  }
+												}
+										});
+
+										// 查看完整密钥，服务端会记录审计日志
+										keysTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('reveal-key-btn')) {
+												return;
+											}
+											if (!confirm('查看完整密钥的操作会被记录到审计日志，确定继续吗？')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/keys/reveal', {
+													method: 'POST',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ key: e.target.dataset.key }),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													prompt('完整密钥:', result.api_key);
+												} else {
+													alert(\`查看密钥失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to reveal key:', error);
+											}
+										});
+
+										const fetchStrategy = async () => {
+											try {
+												const response = await fetch('/api/keys/strategy');
+												const { strategy } = await response.json();
+												strategySelect.value = strategy;
+											} catch (error) {
+												console.error('Failed to fetch strategy:', error);
+											}
+										};
+
+										strategySelect.addEventListener('change', async () => {
+											try {
+												const response = await fetch('/api/keys/strategy', {
+													method: 'PUT',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ strategy: strategySelect.value }),
+												});
+												const result = await response.json();
+												if (!response.ok) {
+													alert(\`切换策略失败: \${result.error || '未知错误'}\`);
+													fetchStrategy();
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to update strategy:', error);
+											}
 										});
 
 										selectAllCheckbox.addEventListener('change', () => {
@@ -318,23 +849,50 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 												const response = await fetch('/api/keys/check');
 												const results = await response.json();
 												results.forEach(result => {
-													const row = keysTableBody.querySelector(\`tr[data-key="\${result.key}"]\`);
+													const row = keysTableBody.querySelector(\`tr[data-key="\${result.fingerprint}"]\`);
 													if (row) {
 														const statusCell = row.querySelector('.status-cell');
 														if (statusCell) {
-															statusCell.textContent = result.valid ? '有效' : '无效';
+															statusCell.textContent = checkCategoryLabels[result.category] || (result.valid ? '有效' : '无效');
 															statusCell.className = result.valid ? 'p-2 status-cell text-green-500' : 'p-2 status-cell text-red-500';
+															statusCell.title = result.error || '';
 														}
 													}
 												});
+												fetchAndRenderStats();
 											} catch (error) {
 												alert('检查密钥失败，请查看控制台获取更多信息。');
 												console.error('Failed to check keys:', error);
 											}
 										});
 
-										addKeysForm.addEventListener('submit', async (e) => {
-												e.preventDefault();
+										const importStatusLabels = { added: '已添加', would_add: '将添加', duplicate: '重复', invalid: '无效' };
+										const importReasonLabels = {
+											invalid_format: '格式错误',
+											already_exists: '已存在',
+											duplicate_in_request: '本次输入中重复',
+											...checkCategoryLabels,
+										};
+
+										// 展示导入结果或预览表格
+										const renderImportResults = (result) => {
+											document.getElementById('import-preview').classList.remove('hidden');
+											document.getElementById('import-preview-summary').textContent = result.message;
+											const body = document.getElementById('import-preview-body');
+											body.innerHTML = '';
+											result.results.forEach(item => {
+												const row = document.createElement('tr');
+												row.innerHTML = '<td class="p-2 font-mono break-all"></td><td class="p-2"></td><td class="p-2"></td>';
+												const cells = row.querySelectorAll('td');
+												cells[0].textContent = item.masked_key;
+												cells[1].textContent = importStatusLabels[item.status] || item.status;
+												cells[1].className = 'p-2 ' + (item.status === 'invalid' ? 'text-red-500' : item.status === 'duplicate' ? 'text-gray-500' : 'text-green-500');
+												cells[2].textContent = item.reason ? importReasonLabels[item.reason] || item.reason : '';
+												body.appendChild(row);
+											});
+										};
+
+										const importKeys = async (dryRun) => {
 												const keys = apiKeysTextarea.value.split('\\n').map(k => k.trim()).filter(k => k !== '');
 												if (keys.length === 0) {
 												  alert('请输入至少一个API密钥。');
@@ -344,11 +902,20 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 												  const response = await fetch('/api/keys', {
 												    method: 'POST',
 												    headers: { 'Content-Type': 'application/json' },
-												    body: JSON.stringify({ keys }),
+												    body: JSON.stringify({
+												      keys,
+												      pool: document.getElementById('api-keys-pool').value.trim() || undefined,
+												      probe: document.getElementById('api-keys-probe').checked,
+												      dry_run: dryRun,
+												    }),
 												  });
 												  const result = await response.json();
 												  if (response.ok) {
-												    alert(result.message || '密钥添加成功。');
+												    renderImportResults(result);
+												    if (dryRun) {
+												      return;
+												    }
+												    fetchAndRenderPools();
 												    apiKeysTextarea.value = '';
 												    fetchAndRenderKeys();
 												  } else {
@@ -358,8 +925,15 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 												  alert('请求失败，请检查网络连接。');
 												  console.error('Failed to add keys:', error);
 												}
+										};
+
+										addKeysForm.addEventListener('submit', (e) => {
+												e.preventDefault();
+												importKeys(false);
 										});
 
+										document.getElementById('preview-keys-btn').addEventListener('click', () => importKeys(true));
+
 										refreshKeysBtn.addEventListener('click', fetchAndRenderKeys);
 
 										deleteAllKeysBtn.addEventListener('click', async () => {
@@ -389,8 +963,8 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 											try {
 												const response = await fetch('/api/next-key');
 												const result = await response.json();
-												if (response.ok && result.key) {
-													alert('获取到的下一个密钥: ' + result.key);
+												if (response.ok && result.fingerprint) {
+													alert('获取到的下一个密钥: ' + result.masked_key + '（' + result.fingerprint + '）');
 												} else {
 													alert('获取密钥失败: ' + (result.error || '未知错误'));
 												}
@@ -400,8 +974,720 @@ export const Render = ({ isAuthenticated, showWarning }: { isAuthenticated: bool
 											}
 										});
 
+										const quotasTableBody = document.querySelector('#quotas-table tbody');
+
+										const fetchAndRenderQuotas = async () => {
+											try {
+												const response = await fetch('/api/quotas');
+												const { quotas, usage, reset_at } = await response.json();
+												const usageByModel = Object.fromEntries(usage.map(u => [u.model, u]));
+												quotasTableBody.innerHTML = '';
+												if (quotas.length === 0) {
+													quotasTableBody.innerHTML = '<tr><td colspan="6" class="p-2 text-center">未配置配额，所有模型不限制</td></tr>';
+												}
+												quotas.forEach(quota => {
+													const row = document.createElement('tr');
+													const used = usageByModel[quota.model] || { minute_calls: 0, day_calls: 0 };
+													row.innerHTML = \`
+														<td class="p-2 font-mono"></td>
+														<td class="p-2">\${quota.rpm || '不限'}</td>
+														<td class="p-2">\${quota.rpd || '不限'}</td>
+														<td class="p-2">\${quota.model === '*' ? '-' : used.minute_calls}</td>
+														<td class="p-2">\${quota.model === '*' ? '-' : used.day_calls}</td>
+														<td class="p-2"><button class="admin-only delete-quota-btn text-red-600 hover:underline">删除</button></td>
+													\`;
+													row.querySelector('td').textContent = quota.model;
+													row.querySelector('.delete-quota-btn').dataset.model = quota.model;
+													quotasTableBody.appendChild(row);
+												});
+												document.getElementById('quota-reset').textContent = '每日配额将于 ' + new Date(reset_at * 1000).toLocaleString() + ' 重置（太平洋时间午夜）';
+											} catch (error) {
+												console.error('Failed to fetch quotas:', error);
+											}
+										};
+
+										document.getElementById('quota-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											const model = document.getElementById('quota-model').value.trim();
+											const rpm = parseInt(document.getElementById('quota-rpm').value || '0', 10);
+											const rpd = parseInt(document.getElementById('quota-rpd').value || '0', 10);
+											if (!model) {
+												alert('请输入模型名。');
+												return;
+											}
+											try {
+												const response = await fetch('/api/quotas', {
+													method: 'PUT',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ model, rpm, rpd }),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													e.target.reset();
+													fetchAndRenderQuotas();
+												} else {
+													alert(\`保存配额失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to save quota:', error);
+											}
+										});
+
+										quotasTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('delete-quota-btn')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/quotas', {
+													method: 'DELETE',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ models: [e.target.dataset.model] }),
+												});
+												if (response.ok) {
+													fetchAndRenderQuotas();
+												} else {
+													const result = await response.json();
+													alert(\`删除配额失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to delete quota:', error);
+											}
+										});
+
+										const rulesTableBody = document.querySelector('#rules-table tbody');
+										const endpointLabels = { '*': '所有请求', chat: '对话', embeddings: '嵌入', images: '图片生成', models: '模型列表', other: '其它原生接口' };
+
+										const fetchAndRenderPools = async () => {
+											try {
+												const response = await fetch('/api/keys/pools');
+												const { pools } = await response.json();
+												const options = document.getElementById('pool-options');
+												options.innerHTML = '';
+												pools.forEach(p => {
+													const option = document.createElement('option');
+													option.value = p.pool;
+													options.appendChild(option);
+												});
+												document.getElementById('pools-summary').textContent =
+													'密钥池：' + (pools.map(p => \`\${p.pool}（\${p.available}/\${p.keys} 可用）\`).join('，') || '无');
+											} catch (error) {
+												console.error('Failed to fetch pools:', error);
+											}
+										};
+
+										const fetchAndRenderRules = async () => {
+											try {
+												const response = await fetch('/api/keys/rules');
+												const { rules } = await response.json();
+												rulesTableBody.innerHTML = '';
+												if (rules.length === 0) {
+													rulesTableBody.innerHTML = '<tr><td colspan="5" class="p-2 text-center">未配置规则，所有请求使用全部密钥</td></tr>';
+												}
+												rules.forEach(rule => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2">\${rule.priority}</td>
+														<td class="p-2">\${endpointLabels[rule.endpoint] || rule.endpoint}</td>
+														<td class="p-2 font-mono rule-model"></td>
+														<td class="p-2 rule-pool"></td>
+														<td class="p-2"><button class="admin-only delete-rule-btn text-red-600 hover:underline" data-id="\${rule.id}">删除</button></td>
+													\`;
+													row.querySelector('.rule-model').textContent = rule.model_pattern;
+													row.querySelector('.rule-pool').textContent = rule.pool;
+													rulesTableBody.appendChild(row);
+												});
+											} catch (error) {
+												console.error('Failed to fetch rules:', error);
+											}
+										};
+
+										document.getElementById('rule-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											const pool = document.getElementById('rule-pool').value.trim();
+											if (!pool) {
+												alert('请输入密钥池。');
+												return;
+											}
+											try {
+												const response = await fetch('/api/keys/rules', {
+													method: 'POST',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({
+														endpoint: document.getElementById('rule-endpoint').value,
+														model_pattern: document.getElementById('rule-model').value.trim() || '*',
+														pool,
+														priority: parseInt(document.getElementById('rule-priority').value || '0', 10),
+													}),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													fetchAndRenderRules();
+												} else {
+													alert(\`添加规则失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to add rule:', error);
+											}
+										});
+
+										rulesTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('delete-rule-btn')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/keys/rules', {
+													method: 'DELETE',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ ids: [parseInt(e.target.dataset.id, 10)] }),
+												});
+												if (response.ok) {
+													fetchAndRenderRules();
+												} else {
+													const result = await response.json();
+													alert(\`删除规则失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to delete rule:', error);
+											}
+										});
+
+										const clientKeysTableBody = document.querySelector('#client-keys-table tbody');
+
+										const clientLimitsTableBody = document.querySelector('#client-limits-table tbody');
+										const clientUsageTableBody = document.querySelector('#client-usage-table tbody');
+										const clientNames = { '*': '默认', root: 'AUTH_KEY' };
+										const describeSubject = (subject) => {
+											const [client, ...subClient] = subject.split(':');
+											return (clientNames[client] || client) + (subClient.length ? \` / \${subClient.join(':')}\` : '');
+										};
+
+										const fetchAndRenderClientLimits = async () => {
+											try {
+												const response = await fetch('/api/client-limits');
+												const { limits, usage } = await response.json();
+												clientLimitsTableBody.innerHTML = '';
+												if (limits.length === 0) {
+													clientLimitsTableBody.innerHTML = '<tr><td colspan="6" class="p-2 text-center">未配置限额，调用方不受限制</td></tr>';
+												}
+												const formatLimit = (value) => value || '不限';
+												limits.forEach(limit => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2 client-limit-subject"></td>
+														<td class="p-2">\${formatLimit(limit.rpm)}</td>
+														<td class="p-2">\${formatLimit(limit.rpd)}</td>
+														<td class="p-2">\${formatLimit(limit.daily_tokens)}</td>
+														<td class="p-2">\${formatLimit(limit.monthly_tokens)}</td>
+														<td class="p-2"><button class="admin-only delete-client-limit-btn text-red-600 hover:underline">删除</button></td>
+													\`;
+													row.querySelector('.client-limit-subject').textContent = describeSubject(limit.subject);
+													row.querySelector('.delete-client-limit-btn').dataset.subject = limit.subject;
+													clientLimitsTableBody.appendChild(row);
+												});
+												clientUsageTableBody.innerHTML = '';
+												if (usage.length === 0) {
+													clientUsageTableBody.innerHTML = '<tr><td colspan="6" class="p-2 text-center">本月暂无调用</td></tr>';
+												}
+												usage.forEach(item => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2 client-usage-name"></td>
+														<td class="p-2 client-usage-sub-client"></td>
+														<td class="p-2">\${item.minute_requests}</td>
+														<td class="p-2">\${item.day_requests}</td>
+														<td class="p-2">\${item.day_tokens}</td>
+														<td class="p-2">\${item.month_tokens}</td>
+													\`;
+													row.querySelector('.client-usage-name').textContent = item.name || item.client;
+													row.querySelector('.client-usage-sub-client').textContent = item.sub_client || '-';
+													clientUsageTableBody.appendChild(row);
+												});
+											} catch (error) {
+												console.error('Failed to fetch client limits:', error);
+											}
+										};
+
+										document.getElementById('client-limit-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											const client = document.getElementById('client-limit-client').value;
+											const subClient = document.getElementById('client-limit-sub-client').value.trim();
+											if (subClient && client === '*') {
+												alert('按 X-Client-Id 配置限额时需要选择具体的客户端密钥。');
+												return;
+											}
+											const readLimit = (id) => parseInt(document.getElementById(id).value || '0', 10);
+											try {
+												const response = await fetch('/api/client-limits', {
+													method: 'PUT',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({
+														subject: subClient ? \`\${client}:\${subClient}\` : client,
+														rpm: readLimit('client-limit-rpm'),
+														rpd: readLimit('client-limit-rpd'),
+														daily_tokens: readLimit('client-limit-daily-tokens'),
+														monthly_tokens: readLimit('client-limit-monthly-tokens'),
+													}),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													fetchAndRenderClientLimits();
+												} else {
+													alert(\`保存限额失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to save client limit:', error);
+											}
+										});
+
+										clientLimitsTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('delete-client-limit-btn')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/client-limits', {
+													method: 'DELETE',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ subjects: [e.target.dataset.subject] }),
+												});
+												if (response.ok) {
+													fetchAndRenderClientLimits();
+												} else {
+													const result = await response.json();
+													alert(\`删除限额失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to delete client limit:', error);
+											}
+										});
+
+										const modelPoliciesTableBody = document.querySelector('#model-policies-table tbody');
+
+										const fetchAndRenderModelPolicies = async () => {
+											try {
+												const response = await fetch('/api/model-policies');
+												const { policies, defaults } = await response.json();
+												document.getElementById('model-policy-defaults').textContent =
+													\`请求的模型名无法识别时使用默认模型（内置默认：对话 \${defaults.default_chat_model}，嵌入 \${defaults.default_embedding_model}）。客户端密钥未单独配置的字段沿用「默认」的配置，不在允许列表中的模型返回 403。\`;
+												modelPoliciesTableBody.innerHTML = '';
+												if (policies.length === 0) {
+													modelPoliciesTableBody.innerHTML = '<tr><td colspan="5" class="p-2 text-center">未配置策略，允许所有模型</td></tr>';
+												}
+												policies.forEach(policy => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2 model-policy-subject"></td>
+														<td class="p-2 font-mono model-policy-allowed"></td>
+														<td class="p-2 font-mono model-policy-chat"></td>
+														<td class="p-2 font-mono model-policy-embedding"></td>
+														<td class="p-2"><button class="admin-only delete-model-policy-btn text-red-600 hover:underline">删除</button></td>
+													\`;
+													row.querySelector('.model-policy-subject').textContent = describeSubject(policy.subject);
+													row.querySelector('.model-policy-allowed').textContent = policy.allowed_models ? policy.allowed_models.join(', ') : '沿用默认';
+													row.querySelector('.model-policy-chat').textContent = policy.default_chat_model || '沿用默认';
+													row.querySelector('.model-policy-embedding').textContent = policy.default_embedding_model || '沿用默认';
+													row.querySelector('.delete-model-policy-btn').dataset.subject = policy.subject;
+													modelPoliciesTableBody.appendChild(row);
+												});
+											} catch (error) {
+												console.error('Failed to fetch model policies:', error);
+											}
+										};
+
+										document.getElementById('model-policy-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											const allowed = document.getElementById('model-policy-allowed').value.split(',').map(model => model.trim()).filter(Boolean);
+											try {
+												const response = await fetch('/api/model-policies', {
+													method: 'PUT',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({
+														subject: document.getElementById('model-policy-subject').value,
+														allowed_models: allowed.length ? allowed : null,
+														default_chat_model: document.getElementById('model-policy-chat').value.trim() || null,
+														default_embedding_model: document.getElementById('model-policy-embedding').value.trim() || null,
+													}),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													fetchAndRenderModelPolicies();
+												} else {
+													alert(\`保存策略失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to save model policy:', error);
+											}
+										});
+
+										modelPoliciesTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('delete-model-policy-btn')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/model-policies', {
+													method: 'DELETE',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ subjects: [e.target.dataset.subject] }),
+												});
+												if (response.ok) {
+													fetchAndRenderModelPolicies();
+												} else {
+													const result = await response.json();
+													alert(\`删除策略失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to delete model policy:', error);
+											}
+										});
+
+										const fetchAndRenderClientKeys = async () => {
+											try {
+												const response = await fetch('/api/client-keys');
+												const { client_keys, root_key_enabled } = await response.json();
+												const subjects = [['*', clientNames['*']], ['root', 'AUTH_KEY'], ...client_keys.map(clientKey => [clientKey.id, clientKey.name])];
+												subjects.forEach(([value, label]) => (clientNames[value] = label));
+												document.querySelectorAll('.client-subject-select').forEach(select => {
+													const selected = select.value;
+													select.innerHTML = '';
+													subjects.forEach(([value, label]) => {
+														const option = document.createElement('option');
+														option.value = value;
+														option.textContent = label;
+														select.appendChild(option);
+													});
+													select.value = subjects.some(([value]) => value === selected) ? selected : '*';
+												});
+												fetchAndRenderClientLimits();
+												fetchAndRenderModelPolicies();
+												document.getElementById('client-keys-summary').textContent = root_key_enabled
+													? '环境变量 AUTH_KEY 仍可作为 root 密钥使用，下列密钥可以单独吊销或轮换。'
+													: '未配置 AUTH_KEY，只有下列密钥可以访问代理接口。';
+												clientKeysTableBody.innerHTML = '';
+												if (client_keys.length === 0) {
+													clientKeysTableBody.innerHTML = '<tr><td colspan="6" class="p-2 text-center">暂未签发客户端密钥</td></tr>';
+												}
+												const now = Math.floor(Date.now() / 1000);
+												client_keys.forEach(clientKey => {
+													const expired = clientKey.expires_at && clientKey.expires_at <= now;
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2 client-key-name"></td>
+														<td class="p-2 font-mono">\${clientKey.masked_key}</td>
+														<td class="p-2 \${clientKey.enabled && !expired ? 'text-green-500' : 'text-gray-400'}">\${!clientKey.enabled ? '已吊销' : expired ? '已过期' : '正常'}</td>
+														<td class="p-2">\${clientKey.expires_at ? new Date(clientKey.expires_at * 1000).toLocaleString() : '永不过期'}</td>
+														<td class="p-2">\${clientKey.last_used_at ? new Date(clientKey.last_used_at * 1000).toLocaleString() : '从未使用'}</td>
+														<td class="admin-only p-2 space-x-2">
+															<button class="toggle-client-key-btn text-blue-600 hover:underline" data-id="\${clientKey.id}" data-enabled="\${clientKey.enabled}">\${clientKey.enabled ? '吊销' : '恢复'}</button>
+															<button class="rotate-client-key-btn text-blue-600 hover:underline" data-id="\${clientKey.id}">轮换</button>
+															<button class="delete-client-key-btn text-red-600 hover:underline" data-id="\${clientKey.id}">删除</button>
+														</td>
+													\`;
+													row.querySelector('.client-key-name').textContent = clientKey.name;
+													clientKeysTableBody.appendChild(row);
+												});
+											} catch (error) {
+												console.error('Failed to fetch client keys:', error);
+											}
+										};
+
+										document.getElementById('client-key-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											const name = document.getElementById('client-key-name').value.trim();
+											if (!name) {
+												alert('请输入名称。');
+												return;
+											}
+											const expires = document.getElementById('client-key-expires').value;
+											try {
+												const response = await fetch('/api/client-keys', {
+													method: 'POST',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ name, expires_in_days: expires ? parseInt(expires, 10) : null }),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													prompt('请立即保存客户端密钥，它只会显示这一次:', result.api_key);
+													document.getElementById('client-key-form').reset();
+													fetchAndRenderClientKeys();
+												} else {
+													alert(\`签发密钥失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to create client key:', error);
+											}
+										});
+
+										clientKeysTableBody.addEventListener('click', async (e) => {
+											const id = e.target.dataset.id;
+											let request;
+											if (e.target.classList.contains('toggle-client-key-btn')) {
+												const enabled = e.target.dataset.enabled === 'true';
+												if (enabled && !confirm('吊销后使用该密钥的请求会立即被拒绝，确定吗？')) {
+													return;
+												}
+												request = [enabled ? '/api/client-keys/disable' : '/api/client-keys/enable', 'POST', { ids: [id] }];
+											} else if (e.target.classList.contains('rotate-client-key-btn')) {
+												if (!confirm('轮换后旧密钥立即失效，确定吗？')) {
+													return;
+												}
+												request = ['/api/client-keys/rotate', 'POST', { id }];
+											} else if (e.target.classList.contains('delete-client-key-btn')) {
+												if (!confirm('确定要删除该客户端密钥吗？')) {
+													return;
+												}
+												request = ['/api/client-keys', 'DELETE', { ids: [id] }];
+											} else {
+												return;
+											}
+											try {
+												const [path, method, body] = request;
+												const response = await fetch(path, {
+													method,
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify(body),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													if (result.api_key) {
+														prompt('请立即保存新的客户端密钥，它只会显示这一次:', result.api_key);
+													}
+													fetchAndRenderClientKeys();
+												} else {
+													alert(\`操作失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to update client key:', error);
+											}
+										});
+
+										const fetchAndRenderHealthCheck = async () => {
+											try {
+												const response = await fetch('/api/health-check');
+												const { config, next_run_at, last_run } = await response.json();
+												document.getElementById('health-check-enabled').checked = config.enabled;
+												document.getElementById('health-check-interval').value = config.interval_minutes;
+												document.getElementById('health-check-concurrency').value = config.concurrency;
+												document.getElementById('health-check-next').textContent =
+													'下次检查：' + (config.enabled && next_run_at ? new Date(next_run_at).toLocaleString() : '未启用');
+												document.getElementById('health-check-last').textContent = last_run
+													? \`上次检查：\${new Date(last_run.finished_at * 1000).toLocaleString()}，共 \${last_run.total} 个密钥，有效 \${last_run.valid} 个，禁用 \${last_run.disabled} 个，冷却 \${last_run.cooled_down} 个\`
+													: '上次检查：暂无';
+											} catch (error) {
+												console.error('Failed to fetch health check config:', error);
+											}
+										};
+
+										document.getElementById('health-check-form').addEventListener('submit', async (e) => {
+											e.preventDefault();
+											try {
+												const response = await fetch('/api/health-check', {
+													method: 'PUT',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({
+														enabled: document.getElementById('health-check-enabled').checked,
+														interval_minutes: parseInt(document.getElementById('health-check-interval').value, 10),
+														concurrency: parseInt(document.getElementById('health-check-concurrency').value, 10),
+													}),
+												});
+												const result = await response.json();
+												if (response.ok) {
+													fetchAndRenderHealthCheck();
+												} else {
+													alert(\`保存计划失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to save health check config:', error);
+											}
+										});
+
+										const authLockoutsTableBody = document.querySelector('#auth-lockouts-table tbody');
+										const authFailuresTableBody = document.querySelector('#auth-failures-table tbody');
+										const authScopeLabels = { admin: '管理面板', proxy: '代理接口' };
+
+										const fetchAndRenderAuthFailures = async () => {
+											try {
+												const response = await fetch('/api/auth-failures?limit=50');
+												const { lockouts, failures } = await response.json();
+												authLockoutsTableBody.innerHTML = '';
+												if (lockouts.length === 0) {
+													authLockoutsTableBody.innerHTML = '<tr><td colspan="7" class="p-2 text-center">暂无认证失败</td></tr>';
+												}
+												lockouts.forEach(lockout => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2 font-mono auth-lockout-ip"></td>
+														<td class="p-2">\${authScopeLabels[lockout.scope] || lockout.scope}</td>
+														<td class="p-2">\${lockout.failures}</td>
+														<td class="p-2">\${lockout.lockouts}</td>
+														<td class="p-2">\${lockout.locked ? '锁定至 ' + new Date(lockout.locked_until * 1000).toLocaleString() : '未锁定'}</td>
+														<td class="p-2">\${new Date(lockout.last_failure_at * 1000).toLocaleString()}</td>
+														<td class="p-2"><button class="admin-only unlock-auth-btn text-blue-600 hover:underline">解除锁定</button></td>
+													\`;
+													row.querySelector('.auth-lockout-ip').textContent = lockout.ip;
+													row.querySelector('.unlock-auth-btn').dataset.ip = lockout.ip;
+													authLockoutsTableBody.appendChild(row);
+												});
+												authFailuresTableBody.innerHTML = '';
+												if (failures.length === 0) {
+													authFailuresTableBody.innerHTML = '<tr><td colspan="4" class="p-2 text-center">暂无记录</td></tr>';
+												}
+												failures.forEach(failure => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2">\${new Date(failure.created_at * 1000).toLocaleString()}</td>
+														<td class="p-2">\${authScopeLabels[failure.scope] || failure.scope}</td>
+														<td class="p-2 font-mono auth-failure-ip"></td>
+														<td class="p-2 font-mono auth-failure-path"></td>
+													\`;
+													row.querySelector('.auth-failure-ip').textContent = failure.ip;
+													row.querySelector('.auth-failure-path').textContent = failure.path;
+													authFailuresTableBody.appendChild(row);
+												});
+											} catch (error) {
+												console.error('Failed to fetch auth failures:', error);
+											}
+										};
+
+										document.getElementById('refresh-auth-failures-btn').addEventListener('click', fetchAndRenderAuthFailures);
+
+										authLockoutsTableBody.addEventListener('click', async (e) => {
+											if (!e.target.classList.contains('unlock-auth-btn')) {
+												return;
+											}
+											try {
+												const response = await fetch('/api/auth-failures', {
+													method: 'DELETE',
+													headers: { 'Content-Type': 'application/json' },
+													body: JSON.stringify({ ips: [e.target.dataset.ip] }),
+												});
+												if (response.ok) {
+													fetchAndRenderAuthFailures();
+												} else {
+													const result = await response.json();
+													alert(\`解除锁定失败: \${result.error || '未知错误'}\`);
+												}
+											} catch (error) {
+												alert('请求失败，请检查网络连接。');
+												console.error('Failed to unlock auth lockout:', error);
+											}
+										});
+
+										const auditTableBody = document.querySelector('#audit-table tbody');
+										const auditMoreBtn = document.getElementById('audit-more-btn');
+										const auditActionLabels = {
+											login: '登录',
+											logout: '退出登录',
+											import_keys: '导入密钥',
+											delete_keys: '删除密钥',
+											delete_all_keys: '删除所有密钥',
+											purge_disabled_keys: '清除已禁用密钥',
+											check_disable_keys: '检查后禁用密钥',
+											enable_keys: '启用密钥',
+											disable_keys: '禁用密钥',
+											reveal_key: '查看完整密钥',
+											set_key_weight: '修改权重',
+											set_key_pool: '修改密钥池',
+											set_strategy: '修改选择策略',
+											add_routing_rule: '添加路由规则',
+											delete_routing_rules: '删除路由规则',
+											set_quota: '保存模型配额',
+											delete_quotas: '删除模型配额',
+											set_health_check: '修改健康检查计划',
+											delete_affinities: '解除密钥亲和',
+											create_client_key: '签发客户端密钥',
+											enable_client_key: '启用客户端密钥',
+											revoke_client_key: '吊销客户端密钥',
+											rotate_client_key: '轮换客户端密钥',
+											delete_client_key: '删除客户端密钥',
+											set_client_limit: '保存调用方限额',
+											delete_client_limit: '删除调用方限额',
+											set_model_policy: '保存模型策略',
+											delete_model_policy: '删除模型策略',
+											unlock_auth: '解除认证锁定',
+										};
+										const auditActionSelect = document.getElementById('audit-action');
+										Object.entries(auditActionLabels).forEach(([value, label]) => {
+											const option = document.createElement('option');
+											option.value = value;
+											option.textContent = label;
+											auditActionSelect.appendChild(option);
+										});
+										let auditNextBefore = null;
+
+										const fetchAndRenderAuditLogs = async (append = false) => {
+											const params = new URLSearchParams({ limit: '50' });
+											const filters = {
+												action: auditActionSelect.value,
+												fingerprint: document.getElementById('audit-fingerprint').value.trim(),
+												actor: document.getElementById('audit-actor').value.trim(),
+											};
+											Object.entries(filters).forEach(([name, value]) => value && params.set(name, value));
+											if (append && auditNextBefore) {
+												params.set('before', auditNextBefore);
+											}
+											try {
+												const response = await fetch('/api/audit?' + params);
+												const { logs, next_before } = await response.json();
+												if (!append) {
+													auditTableBody.innerHTML = '';
+													if (logs.length === 0) {
+														auditTableBody.innerHTML = '<tr><td colspan="6" class="p-2 text-center">暂无记录</td></tr>';
+													}
+												}
+												logs.forEach(log => {
+													const row = document.createElement('tr');
+													row.innerHTML = \`
+														<td class="p-2">\${new Date(log.created_at * 1000).toLocaleString()}</td>
+														<td class="p-2 audit-action"></td>
+														<td class="p-2 font-mono text-sm audit-targets"></td>
+														<td class="p-2 font-mono audit-actor"></td>
+														<td class="p-2 font-mono text-sm audit-session"></td>
+														<td class="p-2 text-sm audit-detail"></td>
+													\`;
+													row.querySelector('.audit-action').textContent = auditActionLabels[log.action] || log.action;
+													const targets = row.querySelector('.audit-targets');
+													targets.textContent = log.fingerprints.length > 3
+														? log.fingerprints.slice(0, 3).join(', ') + \` 等 \${log.fingerprints.length} 个\`
+														: log.fingerprints.join(', ');
+													targets.title = log.fingerprints.join('\\n');
+													row.querySelector('.audit-actor').textContent = log.actor;
+													row.querySelector('.audit-session').textContent = log.session_id ? log.session_id.substring(0, 8) : '';
+													row.querySelector('.audit-detail').textContent = log.detail || '';
+													auditTableBody.appendChild(row);
+												});
+												auditNextBefore = next_before;
+												auditMoreBtn.classList.toggle('hidden', !next_before);
+											} catch (error) {
+												console.error('Failed to fetch audit logs:', error);
+											}
+										};
+
+										document.getElementById('audit-filter-form').addEventListener('submit', (e) => {
+											e.preventDefault();
+											fetchAndRenderAuditLogs();
+										});
+										auditMoreBtn.addEventListener('click', () => fetchAndRenderAuditLogs(true));
+
 										// Initial load
 										fetchAndRenderKeys();
+										fetchAndRenderHealthCheck();
+										fetchAndRenderPools();
+										fetchAndRenderRules();
+										fetchAndRenderClientKeys();
+										fetchStrategy();
+										fetchAndRenderQuotas();
+										fetchAndRenderAuthFailures();
+										fetchAndRenderAuditLogs();
 
 										setInterval(fetchAndRenderStats, 5000); // Refresh stats every 5 seconds
 								});
@@ -6,6 +6,18 @@ declare namespace Cloudflare {
 		AUTH_KEY: "ajielu";
 		HOME_ACCESS_KEY: "7b18e536c27ab304266db3220b8e000db8fbbe35d6e1fde729a1a1d47303858d";
 		FORWARD_CLIENT_KEY_ENABLED: false;
+		RETRY_MAX_ATTEMPTS: "3";
+		RETRY_BACKOFF_MS: "200";
+		RETRY_STATUS_CODES: "429,500,502,503,504";
+		KEY_COOLDOWN_SECONDS: "60";
+		KEY_COOLDOWN_MAX_SECONDS: "3600";
+		KEY_AFFINITY_TTL_SECONDS: "3600";
+		ADMIN_SESSION_TTL_SECONDS: "43200";
+		AUTH_MAX_FAILURES: "5";
+		AUTH_LOCKOUT_SECONDS: "60";
+		AUTH_LOCKOUT_MAX_SECONDS: "3600";
+		KEY_ENCRYPTION_SECRET: string;
+		HOME_READONLY_KEY: string;
 		LOAD_BALANCER: DurableObjectNamespace<import("./src/index").LoadBalancer>;
 	}
 }